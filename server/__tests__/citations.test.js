@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { parseCitations, verifyCitations } from '../citations.js';
+
+const result = (fileName, page, extra = {}) => ({
+  fileName,
+  manualId: fileName.replace('.pdf', ''),
+  page,
+  highlights: [],
+  ...extra
+});
+
+describe('parseCitations', () => {
+  it('finds single pages, lists and ranges with their spans', () => {
+    const answer = 'Loosen the nut (Page 3). Torques are on pages 4 and 6, see also pp. 8-9 and p.12.';
+    const citations = parseCitations(answer);
+
+    expect(citations.map(({ text, page }) => [text, page])).toEqual([
+      ['Page 3', 3],
+      ['pages 4', 4],
+      ['6', 6],
+      ['pp. 8', 8],
+      ['9', 9],
+      ['p.12', 12]
+    ]);
+    citations.forEach(({ text, start, end }) => expect(answer.slice(start, end)).toBe(text));
+  });
+
+  it('cites every page of a range', () => {
+    const answer = 'The wiring is on pp. 4-6, the parts list on pages 10 to 12 and 15.';
+    const citations = parseCitations(answer);
+
+    expect(citations.map(({ text, page }) => [text, page])).toEqual([
+      ['pp. 4', 4],
+      ['', 5],
+      ['6', 6],
+      ['pages 10', 10],
+      ['', 11],
+      ['12', 12],
+      ['15', 15]
+    ]);
+    // Pages inside a range aren't written, so there is nothing to link
+    expect(citations[1]).toMatchObject({ start: answer.indexOf('6'), end: answer.indexOf('6') });
+  });
+
+  it('only cites the ends of ranges too long or backwards to be meant', () => {
+    expect(parseCitations('See pages 1-300 and pp. 9-7.').map(({ page }) => page)).toEqual([1, 300, 9, 7]);
+  });
+
+  it('reads one number or one range after the singular form', () => {
+    expect(parseCitations('See Page 2, 4 bolts hold the cover.').map(({ page }) => page)).toEqual([2]);
+    expect(parseCitations('See Page 2-4, 6 bolts hold the cover.').map(({ text, page }) => [text, page]))
+      .toEqual([['Page 2', 2], ['', 3], ['4', 4]]);
+    expect(parseCitations('Wiring (p. 7 to 8)').map(({ page }) => page)).toEqual([7, 8]);
+  });
+
+  it('keeps the file name written before a citation', () => {
+    const citations = parseCitations('[pump.pdf, Page 2] and (Page 5)', ['pump.pdf']);
+    expect(citations.map(({ fileName }) => fileName)).toEqual(['pump.pdf', null]);
+  });
+});
+
+describe('verifyCitations', () => {
+  const searchResults = [
+    result('pump.pdf', 2),
+    result('fan.pdf', 2),
+    result('fan.pdf', 4, { highlights: [{ page: 4, box: [0, 0, 1, 0.1] }, { page: 5, box: [0, 0, 1, 0.1] }] }),
+    result('pump.pdf', 2)
+  ];
+
+  it('resolves supported citations to the retrieved passages on the page', () => {
+    const [citation] = verifyCitations('Check the belt (Page 2).', searchResults);
+    expect(citation).toEqual({
+      text: 'Page 2',
+      start: 16,
+      end: 22,
+      page: 2,
+      fileName: 'pump.pdf',
+      manualId: 'pump',
+      supported: true,
+      sections: [0, 3]
+    });
+  });
+
+  it('uses the named manual and pages a passage runs onto', () => {
+    const [named, continued] = verifyCitations('fan.pdf, Page 2 and fan.pdf: Page 5', searchResults);
+    expect(named).toMatchObject({ manualId: 'fan', supported: true, sections: [1] });
+    expect(continued).toMatchObject({ manualId: 'fan', supported: true, sections: [2] });
+  });
+
+  it('flags pages that were not retrieved', () => {
+    const citations = verifyCitations('Drain the tank (Page 7) as on pump.pdf, Page 4.', searchResults);
+    expect(citations).toEqual([
+      expect.objectContaining({ page: 7, fileName: null, manualId: null, supported: false, sections: [] }),
+      expect.objectContaining({ page: 4, fileName: 'pump.pdf', manualId: null, supported: false, sections: [] })
+    ]);
+  });
+});
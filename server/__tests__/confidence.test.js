@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { answerConfidence } from '../confidence.js';
+
+const evidence = (score, similarity = 0.3) =>
+  ({ score, threshold: 0.5, similarity, similarityThreshold: 0.6, sufficient: score >= 0.5, section: 0 });
+const grounding = (score, sentences = 2) => ({ score, sentences: Array.from({ length: sentences }, () => ({})) });
+// Fused rank scores: first in one ranking of two, and first in both
+const FIRST_IN_ONE = 1 / 61;
+const FIRST_IN_BOTH = 2 / 61;
+
+describe('answerConfidence', () => {
+  it('weighs retrieval, grounding and citations', () => {
+    expect(answerConfidence({
+      evidence: evidence(1),
+      searchResults: [{ score: FIRST_IN_ONE }],
+      grounding: grounding(0.5),
+      citations: [{ supported: true }, { supported: false }]
+    })).toEqual({
+      confidence: 0.65,
+      confidenceFactors: [
+        { name: 'match', score: 1, weight: 0.3 },
+        { name: 'similarity', score: 0.5, weight: 0.1 },
+        { name: 'ranking', score: 0.5, weight: 0.1 },
+        { name: 'grounding', score: 0.5, weight: 0.35 },
+        { name: 'citations', score: 0.5, weight: 0.15 }
+      ]
+    });
+  });
+
+  it('scores the ranking against the rankings that were used', () => {
+    const factors = (results, fusionWeights) => answerConfidence({
+      evidence: evidence(1, 0.9),
+      searchResults: results,
+      fusionWeights,
+      grounding: grounding(1)
+    }).confidenceFactors;
+
+    expect(factors([{ score: FIRST_IN_BOTH }])).toContainEqual({ name: 'similarity', score: 1, weight: 0.12 });
+    expect(factors([{ score: FIRST_IN_BOTH }])).toContainEqual({ name: 'ranking', score: 1, weight: 0.12 });
+    // Without the vector ranking, first in the lexical one is as good as it gets
+    const lexicalOnly = factors([{ score: FIRST_IN_ONE }], { lexical: 1, vector: 0 });
+    expect(lexicalOnly.map(factor => factor.name)).toEqual(['match', 'ranking', 'grounding']);
+    expect(lexicalOnly).toContainEqual({ name: 'ranking', score: 1, weight: 0.13 });
+  });
+
+  it('leaves out checks that did not apply', () => {
+    const { confidence, confidenceFactors } = answerConfidence({
+      evidence: evidence(0.5),
+      grounding: grounding(1, 0),
+      citations: []
+    });
+    expect(confidence).toBe(0.5);
+    expect(confidenceFactors).toEqual([{ name: 'match', score: 0.5, weight: 1 }]);
+  });
+
+  it('is 0 when no answer was generated', () => {
+    expect(answerConfidence({
+      evidence: evidence(0.25),
+      searchResults: [{ score: FIRST_IN_ONE }],
+      grounding: null
+    })).toEqual({
+      confidence: 0,
+      confidenceFactors: [
+        { name: 'match', score: 0.25, weight: 0.6 },
+        { name: 'similarity', score: 0.5, weight: 0.2 },
+        { name: 'ranking', score: 0.5, weight: 0.2 }
+      ]
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { chunkSections } from '../chunker.js';
+import { countTokens, expandContext, joinChunks } from '../contextWindow.js';
+
+const FILTER = '4 Maintenance > 4.1 Filter replacement';
+const BELT = '4 Maintenance > 4.2 Belt tension';
+
+const chunk = (text, sectionPath, page, extra = {}) => ({ text, sectionPath, page, pages: [page], ...extra });
+
+// One manual whose chunks overlap by a sentence, as the chunker makes them
+const chunks = [
+  chunk('Turn off the power.', FILTER, 1),
+  chunk('Turn off the power. Remove the cover.', FILTER, 1, { overlapLength: 19 }),
+  chunk('Remove the cover. Take out the filter.', FILTER, 1, { overlapLength: 17 }),
+  chunk('Take out the filter. Tighten to 25 Nm.', FILTER, 2, { overlapLength: 20 }),
+  chunk('Check the belt tension monthly.', BELT, 2),
+  chunk('| Bolt | Torque |', FILTER, 2, { table: { headers: ['Bolt', 'Torque'], rows: [] } })
+];
+const chunksOf = () => chunks;
+const hit = (chunkIndex) => ({ manualId: 'pump', chunkIndex, page: chunks[chunkIndex].page, text: chunks[chunkIndex].text });
+
+describe('joinChunks', () => {
+  it('drops the sentences the second chunk repeats', () => {
+    expect(joinChunks('Turn off the power. Remove the cover.', chunks[2]))
+      .toBe('Turn off the power. Remove the cover. Take out the filter.');
+  });
+
+  it('keeps text the chunks only happen to share', () => {
+    expect(joinChunks('Set the pressure to 2.', { text: '2. Close the drain cock.', overlapLength: 0 }))
+      .toBe('Set the pressure to 2. 2. Close the drain cock.');
+    expect(joinChunks('Remove the cover', { text: 'cover plate screws.' }))
+      .toBe('Remove the cover cover plate screws.');
+  });
+});
+
+describe('expandContext', () => {
+  it('widens a passage with its section up to the token budget', () => {
+    const [result] = expandContext([hit(3)], chunksOf, { tokenBudget: 100 });
+    expect(result.context).toEqual({
+      text: 'Turn off the power. Remove the cover. Take out the filter. Tighten to 25 Nm.',
+      pages: [1, 2],
+      chunkIndexes: [0, 3]
+    });
+    // The passage itself is kept as retrieved
+    expect(result.text).toBe('Take out the filter. Tighten to 25 Nm.');
+  });
+
+  it('stops at the budget, growing on both sides', () => {
+    const budget = countTokens('Remove the cover. Take out the filter. Tighten to 25 Nm.');
+    const [result] = expandContext([hit(3)], chunksOf, { tokenBudget: budget });
+    expect(result.context.chunkIndexes).toEqual([2, 3]);
+  });
+
+  it('merges passages into the better-ranked one instead of repeating them', () => {
+    const [first, second, third] = expandContext([hit(2), hit(1), hit(4)], chunksOf, { tokenBudget: 100 });
+    expect(first.context.chunkIndexes).toEqual([0, 3]);
+    expect(second.context).toBeNull();
+    // Another section, and tables, are never joined
+    expect(third.context).toEqual({ text: 'Check the belt tension monthly.', pages: [2], chunkIndexes: [4, 4] });
+  });
+});
+
+describe('chunks from the chunker', () => {
+  it('join back into the section text', () => {
+    const text = 'Set the pressure to 2. 2. Close the drain cock. Remove the cover. Open the valve slowly.';
+    const section = { sectionPath: FILTER, lines: [{ text, page: 1 }] };
+    const chunked = chunkSections([section], { chunkSize: 40, chunkOverlap: 20 });
+
+    expect(chunked.length).toBeGreaterThan(2);
+    expect(chunked[1].overlapLength).toBeGreaterThan(0);
+    const [result] = expandContext([{ manualId: 'm', chunkIndex: 0 }], () => chunked, { tokenBudget: 100 });
+    expect(result.context.text).toBe(text);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { extractChunk, validateChunkExtraction } from '../extraction.js';
+import { MockLLMProvider } from '../llm.js';
+
+describe('validateChunkExtraction', () => {
+  it('accepts a reply matching the schema', () => {
+    const reply = {
+      procedures: [{ title: 'Replace the filter', prerequisites: ['a'], tools: [], warnings: [], steps: ['Remove the cover'] }],
+      warnings: []
+    };
+    expect(validateChunkExtraction(reply)).toEqual({ value: reply });
+  });
+
+  it('repairs wrappers, aliases, single strings and object items', () => {
+    const reply = {
+      result: {
+        procedure: {
+          name: 'Replace the filter',
+          requirements: 'Filter behind the cover',
+          equipment: null,
+          instructions: [{ step: 1, text: 'Remove the cover' }, 42, '  ']
+        },
+        cautions: 'Wear gloves'
+      }
+    };
+    expect(validateChunkExtraction(reply)).toEqual({
+      value: {
+        procedures: [{
+          title: 'Replace the filter',
+          prerequisites: ['Filter behind the cover'],
+          tools: [],
+          warnings: [],
+          steps: ['Remove the cover', '42']
+        }],
+        warnings: ['Wear gloves']
+      }
+    });
+  });
+
+  it('wraps a lone procedure given at the top level', () => {
+    expect(validateChunkExtraction({ title: 'Adjust the belt', steps: 'Loosen the bolts' }).value).toEqual({
+      procedures: [{ title: 'Adjust the belt', prerequisites: [], tools: [], warnings: [], steps: ['Loosen the bolts'] }],
+      warnings: []
+    });
+  });
+
+  it('describes what does not fit', () => {
+    expect(validateChunkExtraction({ procedures: [{ title: 'Replace the filter', steps: [{ number: 1 }] }] }).error)
+      .toBe('procedures.0.steps.0: Expected string, received object');
+    expect(validateChunkExtraction({ procedures: [{ steps: ['Remove the cover'] }] }).error)
+      .toBe('procedures.0.title: Required');
+    expect(validateChunkExtraction({ summary: 'A pump' }).error).toMatch(/^procedures: Required/);
+    expect(validateChunkExtraction(['Remove the cover']).error).toBe('Expected object, received array');
+  });
+});
+
+describe('extractChunk', () => {
+  it('gives up after the repair attempts', async () => {
+    const provider = new MockLLMProvider({ defaultText: '{"summary": "A pump"}' });
+
+    const result = await extractChunk(provider, 'Section: 5 Troubleshooting');
+
+    expect(result.attempts).toBe(3);
+    expect(result.error).toMatch(/^procedures: Required/);
+    expect(provider.calls).toHaveLength(3);
+  });
+
+  it('leaves provider errors to the caller', async () => {
+    const provider = new MockLLMProvider({ responses: [{ match: '', error: 'Too Many Requests', status: 429 }] });
+    await expect(extractChunk(provider, 'text')).rejects.toMatchObject({ status: 429 });
+  });
+});
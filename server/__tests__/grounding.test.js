@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { assessEvidence, groundAnswer, matchHighlights } from '../grounding.js';
+import { analyze } from '../analyzer.js';
+
+const passage = (text, sectionPath = '', fileName = 'pump.pdf') => ({ text, sectionPath, fileName, page: 1 });
+
+const searchResults = [
+  passage('Turn off the power before replacing the filter. Tighten the cover screws to 25 Nm.', '4 Maintenance > 4.1 Filter replacement'),
+  passage('Check the belt tension monthly. Adjust it with the tension screw.', '4 Maintenance > 4.2 Belt tension')
+];
+
+describe('assessEvidence', () => {
+  it('scores the query terms found in the best passage, headings included', () => {
+    expect(assessEvidence(analyze('adjust belt tension'), searchResults)).toEqual({
+      score: 1,
+      threshold: 0.5,
+      similarity: 0,
+      similarityThreshold: null,
+      sufficient: true,
+      section: 1
+    });
+  });
+
+  it('counts spelling corrections for less', () => {
+    // "pension plan", with "pension" corrected to the manual's "tension"
+    expect(assessEvidence(['tension', 'plan'], searchResults, { correctedTerms: ['tension'] }))
+      .toMatchObject({ score: 0.25, sufficient: false });
+    // "belt tenson" is still answered
+    expect(assessEvidence(['belt', 'tension'], searchResults, { correctedTerms: ['tension'] }))
+      .toMatchObject({ score: 0.75, sufficient: true });
+  });
+
+  it('accepts a passage found semantically for a paraphrased question', () => {
+    const results = searchResults.map((result, index) => ({ ...result, vectorScore: index === 1 ? 0.72 : 0.4 }));
+    const question = analyze('how often should the drive strap be checked');
+
+    expect(assessEvidence(question, results, { answerSimilarity: 0.65 })).toMatchObject({
+      similarity: 0.72,
+      similarityThreshold: 0.65,
+      sufficient: true,
+      section: 1
+    });
+    expect(assessEvidence(question, results, { answerSimilarity: 0.8 }).sufficient).toBe(false);
+  });
+
+  it('is insufficient when no passage covers enough of the query', () => {
+    const evidence = assessEvidence(analyze('belt replacement warranty interval'), searchResults);
+    expect(evidence).toMatchObject({ score: 0.25, sufficient: false });
+    expect(assessEvidence(analyze('belt'), [])).toMatchObject({ score: 0, sufficient: false, section: null });
+  });
+});
+
+describe('matchHighlights', () => {
+  const text = 'Drain the tank. Refill it with oil.';
+  const highlights = [
+    { page: 3, box: [0, 0.1, 1, 0.02], start: 0, end: 15 },
+    { page: 3, box: [0, 0.12, 1, 0.02], start: 16, end: 35 }
+  ];
+
+  it('keeps the highlights of the lines matching the query', () => {
+    expect(matchHighlights(analyze('oil change'), { text, highlights })).toEqual([{ page: 3, box: [0, 0.12, 1, 0.02] }]);
+  });
+
+  it('keeps every highlight when no line matches or lines have no text', () => {
+    expect(matchHighlights(analyze('lubricant'), { text, highlights })).toHaveLength(2);
+    const positionsOnly = highlights.map(({ page, box }) => ({ page, box }));
+    expect(matchHighlights(analyze('oil'), { text, highlights: positionsOnly })).toEqual(positionsOnly);
+  });
+});
+
+describe('groundAnswer', () => {
+  it('checks each sentence against the passages', () => {
+    const answer = [
+      '## Steps',
+      '1. Turn off the power before replacing the filter (pump.pdf, Page 1).',
+      '2. Tighten the cover screws to 30 Nm.',
+      '',
+      'Check the belt tension monthly. Replace the belt with a genuine spare every year.'
+    ].join('\n');
+
+    const { score, sentences } = groundAnswer(answer, searchResults);
+    expect(sentences.map(({ text, supported, section }) => [text, supported, section])).toEqual([
+      ['Turn off the power before replacing the filter (pump.pdf, Page 1).', true, 0],
+      // Every term is in the passage, but not the torque
+      ['Tighten the cover screws to 30 Nm.', false, 0],
+      ['Check the belt tension monthly.', true, 1],
+      ['Replace the belt with a genuine spare every year.', false, 0]
+    ]);
+    sentences.forEach(({ text, start, end }) => expect(answer.slice(start, end)).toBe(text));
+    expect(score).toBe(0.5);
+  });
+
+  it('counts an answer without statements to check as grounded', () => {
+    expect(groundAnswer('See below:', searchResults)).toEqual({ score: 1, sentences: [] });
+  });
+});
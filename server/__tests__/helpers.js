@@ -0,0 +1,63 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import request from 'supertest';
+import { createApp } from '../app.js';
+import { HashingEmbeddingProvider } from '../embeddings.js';
+import { MockLLMProvider } from '../llm.js';
+import { createManualStorage } from '../manualStorage.js';
+import { vectorStore } from '../vectorStore.js';
+import { conversationStore } from '../conversations.js';
+
+const FIXTURES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export const fixture = (name) => path.join(FIXTURES_DIR, name);
+
+/**
+ * An app wired to a mock LLM, local embeddings and a temporary data dir, with the
+ * shared in-memory stores emptied. OCR and rate-limit delays are off.
+ */
+export const createTestApp = async ({ llmProvider = new MockLLMProvider(), ...options } = {}) => {
+  vectorStore.manuals.clear();
+  conversationStore.conversations.clear();
+
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'manual-test-'));
+  const manualStorage = createManualStorage(dataDir);
+  await manualStorage.init();
+  const app = createApp({
+    llmProvider,
+    embeddingProvider: new HashingEmbeddingProvider(),
+    manualStorage,
+    ocr: { enabled: false },
+    rateLimitDelay: 0,
+    retryDelay: 0,
+    ...options
+  });
+
+  return {
+    app,
+    llmProvider,
+    manualStorage,
+    cleanup: () => fs.rmSync(dataDir, { recursive: true, force: true })
+  };
+};
+
+/**
+ * Polls GET /jobs/:id until the job has finished and returns it
+ */
+export const waitForJob = async (app, jobId) => {
+  for (;;) {
+    const { body: job } = await request(app).get(`/jobs/${jobId}`).expect(200);
+    if (job.status !== 'running') return job;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+/**
+ * Uploads a fixture PDF to the library and returns the finished upload job
+ */
+export const uploadFixture = async (app, name) => {
+  const response = await request(app).post('/upload').attach('pdf', fixture(name)).expect(202);
+  return waitForJob(app, response.body.jobId);
+};
@@ -0,0 +1,239 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import { GeminiLLMProvider, MockLLMProvider } from '../llm.js';
+import { createTestApp, fixture, uploadFixture, waitForJob } from './helpers.js';
+
+const PROCEDURE = {
+  title: 'Replace the filter',
+  prerequisites: ['The filter sits behind the cover plate'],
+  tools: ['Torque wrench'],
+  warnings: ['Turn off the power before replacing the filter'],
+  steps: ['Remove the cover', 'Tighten the cover screws to 25 Nm']
+};
+
+const EXTRACTION = { procedures: [PROCEDURE], warnings: ['Wear gloves'] };
+
+// Merged list items are { text, pages, quote }
+const texts = (items) => items.map(item => item.text);
+
+const extractFixture = async (app, name) => {
+  const response = await request(app).post('/api/gemini').attach('pdf', fixture(name)).expect(202);
+  return waitForJob(app, response.body.jobId);
+};
+
+describe('POST /api/gemini', () => {
+  let context;
+
+  afterEach(() => context.cleanup());
+
+  it('extracts a procedure per section with its page range', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({
+        responses: [
+          { match: 'Belt tension', json: { procedures: [{ ...PROCEDURE, title: 'Adjust the belt' }], warnings: [] } },
+          { match: 'Analyze this section', json: EXTRACTION }
+        ]
+      })
+    });
+
+    const job = await extractFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('completed');
+    expect(job.result).toMatchObject({ title: 'manual', warnings: [{ text: 'Wear gloves', pages: [1], quote: null }], chunkErrors: [], ocrPages: [] });
+    const titles = job.result.procedures.map(({ title, section }) => `${section}: ${title}`);
+    expect(titles).toContain('4 Maintenance > 4.1 Filter replacement: Replace the filter');
+    expect(titles).toContain('4 Maintenance > 4.2 Belt tension: Adjust the belt');
+
+    const belt = job.result.procedures.find(({ title }) => title === 'Adjust the belt');
+    expect(belt).toMatchObject({ pageStart: 2, pageEnd: 2, tools: [{ text: 'Torque wrench', pages: [2], quote: null }] });
+    expect(texts(belt.steps)).toEqual(PROCEDURE.steps);
+    expect(new Set(job.result.procedures.map(({ id }) => id)).size).toBe(job.result.procedures.length);
+    // Each step quotes the passage it was extracted from
+    const filter = job.result.procedures.find(({ title }) => title === 'Replace the filter');
+    expect(filter.steps[1]).toEqual({
+      text: 'Tighten the cover screws to 25 Nm',
+      pages: [1],
+      quote: 'Tighten the cover screws to 25 Nm.'
+    });
+    // Chunks are labelled with their section
+    expect(context.llmProvider.calls[0]).toContain('Section: 4 Maintenance');
+  });
+
+  it('repairs replies that use other field names or shapes', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({
+        responses: [{
+          match: 'Analyze this section',
+          text: '```json\n{"name": "Replace the filter", "requirements": "Filter behind the cover", "steps": [{"step": 1, "text": "Remove the cover"}]}\n```'
+        }]
+      })
+    });
+
+    const job = await extractFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('completed');
+    expect(job.result.procedures[0]).toMatchObject({
+      title: 'Replace the filter',
+      prerequisites: [expect.objectContaining({ text: 'Filter behind the cover', pages: [1] })],
+      tools: [],
+      steps: [expect.objectContaining({ text: 'Remove the cover', pages: [1] })]
+    });
+    expect(job.result.warnings).toEqual([]);
+  });
+
+  it('asks again with the validation errors when a reply does not fit the schema', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({
+        responses: [
+          { match: 'Problems: ', json: EXTRACTION },
+          { match: 'Analyze this section', json: { procedures: [{ title: 'Replace the filter', steps: [{ number: 1 }] }] } }
+        ]
+      })
+    });
+
+    const job = await extractFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('completed');
+    expect(texts(job.result.procedures[0].steps)).toEqual(PROCEDURE.steps);
+    const repairPrompt = context.llmProvider.calls.find(prompt => prompt.includes('Problems: '));
+    expect(repairPrompt).toContain('procedures.0.steps.0: Expected string, received object');
+  });
+
+  it('reports sections whose replies never fit and keeps the rest', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({
+        responses: [
+          { match: 'Belt tension', text: 'Sorry, I cannot help with that.' },
+          { match: 'Analyze this section', json: EXTRACTION }
+        ]
+      })
+    });
+
+    const job = await extractFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('completed');
+    expect(texts(job.result.procedures[0].steps)).toEqual(PROCEDURE.steps);
+    expect(job.result.chunkErrors).toEqual([
+      expect.objectContaining({
+        page: 2,
+        sectionPath: '4 Maintenance > 4.2 Belt tension',
+        error: 'The reply was not valid JSON'
+      })
+    ]);
+  });
+
+  it('fails the job when no section could be extracted', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({ responses: [{ match: 'Analyze this section', json: { summary: 'A pump' } }] })
+    });
+
+    const job = await extractFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('failed');
+    expect(job.error.error).toBe('No instructions could be extracted from the PDF');
+  });
+
+  it('fails the job when the manual describes no procedures', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({ responses: [{ match: 'Analyze this section', json: { procedures: [], warnings: ['Wear gloves'] } }] })
+    });
+
+    const job = await extractFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('failed');
+    expect(job.error.error).toBe('No procedures found in the PDF');
+  });
+
+  it('rejects a request without a file', async () => {
+    context = await createTestApp();
+    const { body } = await request(context.app).post('/api/gemini').expect(400);
+    expect(body.error).toBe('No PDF file uploaded');
+  });
+
+  it('reports a missing API key before starting a job', async () => {
+    context = await createTestApp({ llmProvider: new GeminiLLMProvider({}) });
+
+    const { body } = await request(context.app)
+      .post('/api/gemini')
+      .attach('pdf', fixture('manual.pdf'))
+      .expect(500);
+    expect(body).toEqual({
+      error: 'API key not configured',
+      details: 'Please check your .env file and ensure VITE_GEMINI_API_KEY is set'
+    });
+  });
+
+  it('fails the job for a PDF without text', async () => {
+    context = await createTestApp();
+
+    const job = await extractFixture(context.app, 'empty.pdf');
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toEqual({
+      error: 'No text content found in PDF',
+      details: 'The PDF appears to be empty or contains no extractable text'
+    });
+    expect(context.llmProvider.calls).toHaveLength(0);
+  });
+
+  it('retries a chunk after a rate limit', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({
+        responses: [
+          { match: 'Analyze this section', error: 'Gemini API error: Too Many Requests', status: 429, times: 1 },
+          { match: 'Analyze this section', json: EXTRACTION }
+        ]
+      })
+    });
+
+    const job = await extractFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('completed');
+    expect(texts(job.result.procedures[0].steps)).toEqual(PROCEDURE.steps);
+  });
+
+  it('fails the job once a chunk keeps being rate limited', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({
+        responses: [{ match: 'Analyze this section', error: 'Gemini API error: Too Many Requests', status: 429 }]
+      })
+    });
+
+    const job = await extractFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('failed');
+    expect(job.error.details).toBe('Failed to process chunk after 3 attempts: Gemini API error: Too Many Requests');
+  });
+});
+
+describe('POST /manuals/:id/instructions', () => {
+  let context;
+
+  afterEach(() => context.cleanup());
+
+  it('extracts procedures from the stored PDF of a manual in the library', async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({ responses: [{ match: 'Analyze this section', json: EXTRACTION }] })
+    });
+    const { result: { manualId } } = await uploadFixture(context.app, 'manual.pdf');
+
+    const response = await request(context.app).post(`/manuals/${manualId}/instructions`).expect(202);
+    const job = await waitForJob(context.app, response.body.jobId);
+
+    expect(job.status).toBe('completed');
+    expect(job.result.title).toBe('manual');
+    expect(texts(job.result.procedures[0].steps)).toEqual(PROCEDURE.steps);
+  });
+
+  it('reports unknown manuals and manuals stored without their PDF', async () => {
+    context = await createTestApp();
+    await request(context.app).post('/manuals/missing/instructions').expect(404);
+
+    const { result: { manualId } } = await uploadFixture(context.app, 'manual.pdf');
+    await context.manualStorage.deleteManual(manualId);
+
+    const { body } = await request(context.app).post(`/manuals/${manualId}/instructions`).expect(409);
+    expect(body.error).toBe('Original PDF not available');
+    expect(context.llmProvider.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { MockLLMProvider, OpenAICompatibleLLMProvider, createLLMProvider, parseJSONResponse } from '../llm.js';
+
+// A local stand-in for an OpenAI-compatible server; handler(body) returns [status, payload]
+const startServer = (handler) => new Promise(resolve => {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const [status, payload] = handler(JSON.parse(body));
+      res.statusCode = status;
+      res.end(typeof payload === 'string' ? payload : JSON.stringify(payload));
+    });
+  });
+  server.listen(0, () => resolve(server));
+});
+
+describe('OpenAICompatibleLLMProvider', () => {
+  let server;
+
+  afterEach(() => server?.close());
+
+  const providerFor = (server) => new OpenAICompatibleLLMProvider({
+    baseUrl: `http://localhost:${server.address().port}/v1`,
+    requireApiKey: false,
+    retryDelay: 1
+  });
+
+  it('retries after a 429', async () => {
+    let requests = 0;
+    server = await startServer(() => {
+      requests++;
+      return requests === 1
+        ? [429, { error: 'rate limited' }]
+        : [200, { choices: [{ message: { content: 'Hello' } }] }];
+    });
+
+    await expect(providerFor(server).generate('Hi')).resolves.toBe('Hello');
+    expect(requests).toBe(2);
+  });
+
+  it('gives up after repeated 429s', async () => {
+    server = await startServer(() => [429, { error: 'rate limited' }]);
+    await expect(providerFor(server).generate('Hi')).rejects.toThrow('LLM API error');
+  });
+
+  it('streams deltas', async () => {
+    server = await startServer(() => [200, [
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}',
+      'data: [DONE]',
+      ''
+    ].join('\n\n')]);
+
+    const pieces = [];
+    await expect(providerFor(server).stream('Hi', piece => pieces.push(piece))).resolves.toBe('Hello');
+    expect(pieces).toEqual(['Hel', 'lo']);
+  });
+});
+
+describe('MockLLMProvider', () => {
+  it('replies with the first matching response and records prompts', async () => {
+    const provider = new MockLLMProvider({
+      responses: [
+        { match: /torque/i, text: '25 Nm' },
+        { match: 'steps', json: { steps: ['Remove the cover'] } }
+      ]
+    });
+
+    await expect(provider.generate('What torque?')).resolves.toBe('25 Nm');
+    await expect(provider.generateJSON('List the steps')).resolves.toEqual({ steps: ['Remove the cover'] });
+    await expect(provider.generate('Anything else')).resolves.toBe('This is a mock answer.');
+    expect(provider.calls).toEqual(['What torque?', 'List the steps', 'Anything else']);
+  });
+
+  it('uses limited responses only as often as allowed', async () => {
+    const provider = new MockLLMProvider({
+      responses: [{ match: '', error: 'Too Many Requests', status: 429, times: 1 }]
+    });
+
+    await expect(provider.generate('Hi')).rejects.toMatchObject({ message: 'Too Many Requests', status: 429 });
+    await expect(provider.generate('Hi')).resolves.toBe('This is a mock answer.');
+  });
+});
+
+describe('parseJSONResponse', () => {
+  it('accepts bare JSON and fenced code blocks', () => {
+    expect(parseJSONResponse('{"a":1}')).toEqual({ a: 1 });
+    expect(parseJSONResponse('Here you go:\n```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(() => parseJSONResponse('no json here')).toThrow('Failed to extract JSON from response');
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('selects the provider from configuration', () => {
+    expect(createLLMProvider({ apiKey: 'key' }).name).toBe('gemini-gemini-2.0-flash');
+    expect(createLLMProvider({ provider: 'ollama' }).name).toBe('ollama-llama3.1');
+    expect(createLLMProvider({ provider: 'llamacpp' }).configurationError()).toBeNull();
+    expect(createLLMProvider({ provider: 'openai' }).configurationError()).toMatch('LLM_API_KEY');
+    expect(() => createLLMProvider({ provider: 'unknown' })).toThrow('Unknown LLM provider: unknown');
+  });
+
+  it('reads the mock responses from a file', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mock-responses-'));
+    const mock = (name, content) => {
+      const responsesPath = path.join(dir, name);
+      fs.writeFileSync(responsesPath, JSON.stringify(content));
+      return createLLMProvider({ provider: 'mock', responsesPath });
+    };
+
+    try {
+      const responses = [{ match: 'torque', text: '25 Nm' }];
+      await expect(mock('array.json', responses).generate('What torque?')).resolves.toBe('25 Nm');
+      const options = mock('options.json', { responses, defaultText: 'No idea' });
+      await expect(options.generate('What torque?')).resolves.toBe('25 Nm');
+      await expect(options.generate('Which oil?')).resolves.toBe('No idea');
+      expect(() => mock('invalid.json', { responses: 'torque' })).toThrow('must hold an array of responses');
+      expect(() => mock('string.json', '25 Nm')).toThrow('must hold an array of responses');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
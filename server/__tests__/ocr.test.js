@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js';
+import { extractPageImage, imageBoxToPage } from '../ocr.js';
+
+const { OPS, ImageKind } = pdfjsLib;
+
+const VIEW = [0, 0, 612, 792];
+// A scan drawn at half size in the middle of a Letter page
+const CENTERED = [306, 0, 0, 396, 153, 198];
+
+const image = (width, height) => ({
+  width,
+  height,
+  kind: ImageKind.RGB_24BPP,
+  data: new Uint8ClampedArray(width * height * 3)
+});
+
+// A page painting the given operators, with inline images only
+const page = (operators) => ({
+  view: VIEW,
+  getOperatorList: async () => ({
+    fnArray: operators.map(([fn]) => fn),
+    argsArray: operators.map(([, args]) => args)
+  })
+});
+
+describe('extractPageImage', () => {
+  it('keeps the transform the largest image was painted with', async () => {
+    const result = await extractPageImage(page([
+      [OPS.save, null],
+      [OPS.transform, [612, 0, 0, 792, 0, 0]],
+      // Too small to be a scan
+      [OPS.paintInlineImageXObject, [image(40, 40)]],
+      [OPS.restore, null],
+      [OPS.save, null],
+      [OPS.transform, [1, 0, 0, 1, 153, 198]],
+      [OPS.transform, [306, 0, 0, 396, 0, 0]],
+      [OPS.paintInlineImageXObject, [image(400, 500)]],
+      [OPS.restore, null]
+    ]));
+
+    expect(result).toMatchObject({ width: 400, height: 500, transform: CENTERED });
+    expect(result.png).toBeInstanceOf(Buffer);
+  });
+
+  it('returns null for a page without a large image', async () => {
+    expect(await extractPageImage(page([[OPS.paintInlineImageXObject, [image(40, 40)]]]))).toBeNull();
+  });
+});
+
+describe('imageBoxToPage', () => {
+  it('places a box of image pixels where the image is drawn on the page', () => {
+    const box = imageBoxToPage([0, 0, 1000, 100], { width: 1000, height: 1000, transform: CENTERED }, VIEW);
+    [0.25, 0.25, 0.5, 0.05].forEach((value, index) => expect(box[index]).toBeCloseTo(value));
+  });
+
+  it('matches the image fractions when the image fills the page', () => {
+    const box = imageBoxToPage(
+      [100, 200, 300, 50],
+      { width: 1000, height: 1000, transform: [612, 0, 0, 792, 0, 0] },
+      VIEW
+    );
+    [0.1, 0.2, 0.3, 0.05].forEach((value, index) => expect(box[index]).toBeCloseTo(value));
+  });
+});
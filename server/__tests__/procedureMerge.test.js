@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { locateSource, mergeProcedures } from '../procedureMerge.js';
+
+const procedure = (title, steps, extra = {}) => ({ title, prerequisites: [], tools: [], warnings: [], steps, ...extra });
+
+const chunk = (sectionPath, text, pageOffsets) => ({
+  text,
+  sectionPath,
+  page: pageOffsets[0].page,
+  pages: pageOffsets.map(({ page }) => page),
+  pageOffsets
+});
+
+const FILTER = '4 Maintenance > 4.1 Filter replacement';
+
+describe('mergeProcedures', () => {
+  it('joins the parts of a procedure split over chunks, dropping the overlap', () => {
+    const { procedures, warnings } = mergeProcedures([
+      {
+        chunkIndex: 0,
+        chunk: chunk(FILTER, 'Wear gloves. Remove the cover. Take out the filter.', [{ page: 1, offset: 0 }]),
+        value: {
+          procedures: [procedure('Replace the filter', ['Remove the cover', 'Take out the filter'])],
+          warnings: ['Wear gloves.']
+        }
+      },
+      {
+        chunkIndex: 1,
+        chunk: chunk(FILTER, 'Take out the filter. Fit the new filter.', [{ page: 1, offset: 0 }, { page: 2, offset: 21 }]),
+        value: {
+          procedures: [procedure('Replacing the filter', ['Take the filter out.', 'Fit the new filter'], { tools: ['Torque wrench'] })],
+          warnings: ['wear gloves']
+        }
+      }
+    ]);
+
+    expect(procedures).toEqual([{
+      id: 'procedure-1',
+      title: 'Replace the filter',
+      section: FILTER,
+      pageStart: 1,
+      pageEnd: 2,
+      prerequisites: [],
+      tools: [{ text: 'Torque wrench', pages: [1], quote: null }],
+      warnings: [],
+      steps: [
+        { text: 'Remove the cover', pages: [1], quote: 'Remove the cover.' },
+        { text: 'Take out the filter', pages: [1], quote: 'Take out the filter.' },
+        { text: 'Fit the new filter', pages: [2], quote: 'Fit the new filter.' }
+      ]
+    }]);
+    expect(warnings).toEqual([{ text: 'Wear gloves.', pages: [1], quote: 'Wear gloves.' }]);
+  });
+
+  it('keeps the earliest occurrence even when chunks arrive out of order', () => {
+    const { warnings } = mergeProcedures([
+      { chunkIndex: 1, chunk: chunk(FILTER, 'Turn off power', [{ page: 5, offset: 0 }]), value: { procedures: [], warnings: ['Turn off power'] } },
+      { chunkIndex: 0, chunk: chunk(FILTER, 'Turn off the power.', [{ page: 3, offset: 0 }]), value: { procedures: [], warnings: ['Turn off the power.'] } }
+    ]);
+
+    expect(warnings).toEqual([{ text: 'Turn off the power.', pages: [3], quote: 'Turn off the power.' }]);
+  });
+
+  it('drops warnings repeating any earlier one', () => {
+    const { warnings } = mergeProcedures([
+      { chunkIndex: 0, chunk: chunk(FILTER, 'Turn off the power.', [{ page: 1, offset: 0 }]), value: { procedures: [], warnings: ['Turn off the power.'] } },
+      {
+        chunkIndex: 1,
+        chunk: chunk(FILTER, 'Wear gloves. Turn off power', [{ page: 4, offset: 0 }]),
+        value: { procedures: [], warnings: ['Wear gloves.', 'Turn off power'] }
+      }
+    ]);
+
+    expect(warnings).toEqual([
+      { text: 'Turn off the power.', pages: [1], quote: 'Turn off the power.' },
+      { text: 'Wear gloves.', pages: [4], quote: 'Wear gloves.' }
+    ]);
+  });
+
+  it('keeps items that differ in meaning', () => {
+    const { warnings } = mergeProcedures([{
+      chunkIndex: 0,
+      chunk: chunk(FILTER, '', [{ page: 1, offset: 0 }]),
+      value: {
+        procedures: [],
+        warnings: ['Turn off the power', 'Turn on the power', 'Tighten to 25 Nm', 'Tighten to 30 Nm']
+      }
+    }]);
+
+    expect(warnings.map(({ text }) => text))
+      .toEqual(['Turn off the power', 'Turn on the power', 'Tighten to 25 Nm', 'Tighten to 30 Nm']);
+  });
+
+  it('keeps steps a procedure repeats', () => {
+    const steps = ['Press SET.', 'Choose the hour', 'Press SET.', 'Choose the minutes', 'Press SET.'];
+    const { procedures } = mergeProcedures([
+      {
+        chunkIndex: 0,
+        chunk: chunk('Clock', 'Press SET. Choose the hour. Press SET. Choose the minutes. Press SET.', [{ page: 2, offset: 0 }]),
+        value: { procedures: [procedure('Set the clock', steps)], warnings: [] }
+      },
+      {
+        // Overlaps the first chunk by its last two sentences
+        chunkIndex: 1,
+        chunk: chunk('Clock', 'Choose the minutes. Press SET. The clock starts.', [{ page: 2, offset: 0 }]),
+        value: { procedures: [procedure('Set the clock', ['Choose the minutes', 'Press SET.', 'The clock starts'])], warnings: [] }
+      }
+    ]);
+
+    expect(procedures[0].steps.map(({ text }) => text)).toEqual([...steps, 'The clock starts']);
+  });
+
+  it('keeps procedures with the same title in different sections apart', () => {
+    const { procedures } = mergeProcedures([
+      { chunkIndex: 0, chunk: chunk('Pump', 'Check the seal', [{ page: 3, offset: 0 }]), value: { procedures: [procedure('Inspect', ['Check the seal'])], warnings: [] } },
+      { chunkIndex: 1, chunk: chunk('Motor', 'Check the brushes', [{ page: 7, offset: 0 }]), value: { procedures: [procedure('Inspect', ['Check the brushes'])], warnings: [] } }
+    ]);
+
+    expect(procedures.map(({ id, section, pageStart }) => [id, section, pageStart]))
+      .toEqual([['procedure-1', 'Pump', 3], ['procedure-2', 'Motor', 7]]);
+  });
+});
+
+describe('locateSource', () => {
+  const text = 'Loosen the belt. Adjust the tensioner bolt until the belt deflects 2.5 mm. Check the tension again.';
+  const twoPages = chunk('Belt', text, [{ page: 4, offset: 0 }, { page: 5, offset: 17 }]);
+
+  it('quotes the sentence an item was extracted from, with its page', () => {
+    expect(locateSource('Adjust the tensioner until the deflection is 2.5 mm', twoPages)).toEqual({
+      pages: [5],
+      quote: 'Adjust the tensioner bolt until the belt deflects 2.5 mm.'
+    });
+    expect(locateSource('Loosen the belt', twoPages)).toEqual({ pages: [4], quote: 'Loosen the belt.' });
+  });
+
+  it('quotes two sentences when the item summarises both', () => {
+    expect(locateSource('Loosen the belt and adjust the tensioner bolt', twoPages)).toEqual({
+      pages: [4, 5],
+      quote: 'Loosen the belt. Adjust the tensioner bolt until the belt deflects 2.5 mm.'
+    });
+  });
+
+  it('falls back to the first page without a quote when nothing matches', () => {
+    expect(locateSource('Something else entirely', twoPages)).toEqual({ pages: [4], quote: null });
+  });
+});
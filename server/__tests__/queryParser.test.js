@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { QueryParseError, hasFilters, matchesFilters, parseQuery } from '../queryParser.js';
+import { analyze } from '../analyzer.js';
+
+const clauses = (query) => parseQuery(query).clauses.map(({ tokens, occur }) => [tokens, occur]);
+
+describe('parseQuery', () => {
+  it('analyzes plain words into optional terms', () => {
+    const parsed = parseQuery('Tighten the screws');
+    expect(parsed.clauses).toEqual([
+      { tokens: ['tighten'], surfaces: ['tighten'], occur: 'should' },
+      { tokens: ['screw'], surfaces: ['screws'], occur: 'should' }
+    ]);
+    expect(parsed.terms).toEqual(['tighten', 'screw']);
+    expect(parsed.text).toBe('tighten screws');
+  });
+
+  it('reads quoted phrases as one clause', () => {
+    expect(clauses('"filter housing" torque')).toEqual([
+      [['filter', 'hous'], 'should'],
+      [['torqu'], 'should']
+    ]);
+  });
+
+  it('reads required and excluded terms and phrases', () => {
+    expect(clauses('+torque -"filter housing" wrench -screws')).toEqual([
+      [['torqu'], 'must'],
+      [['filter', 'hous'], 'mustNot'],
+      [['wrench'], 'should'],
+      [['screw'], 'mustNot']
+    ]);
+    // Excluded clauses don't rank
+    expect(parseQuery('+torque -screws').terms).toEqual(['torqu']);
+  });
+
+  it('skips a lone "+" or "-" and treats other punctuation as a separator', () => {
+    expect(clauses('belt - tension + (motor)')).toEqual([
+      [['belt'], 'should'],
+      [['tension'], 'should'],
+      [['motor'], 'should']
+    ]);
+  });
+
+  it('rejects queries without searchable words', () => {
+    expect(() => parseQuery('what is the')).toThrow('Query contains no searchable words');
+    expect(() => parseQuery('-belt')).toThrow('Query must contain at least one term that is not excluded');
+    expect(() => parseQuery('""')).toThrow('Quoted phrase must contain at least one searchable word');
+    // Unless only the syntax is being checked
+    expect(parseQuery('what is the', { requireTerms: false }).clauses).toEqual([]);
+  });
+
+  it('rejects unterminated quotes and input that is not a string', () => {
+    expect(() => parseQuery('check the "belt tension')).toThrow(new QueryParseError('Unterminated quote at position 11'));
+    expect(() => parseQuery(42)).toThrow(QueryParseError);
+    expect(() => parseQuery('belt '.repeat(300))).toThrow('Query is too long');
+  });
+});
+
+describe('matchesFilters', () => {
+  const chunk = analyze('Remove the filter housing and tighten the screws');
+
+  it('requires +terms and rejects -terms', () => {
+    expect(matchesFilters(parseQuery('+filter screws'), chunk)).toBe(true);
+    expect(matchesFilters(parseQuery('+belt screws'), chunk)).toBe(false);
+    expect(matchesFilters(parseQuery('filter -screws'), chunk)).toBe(false);
+  });
+
+  it('only matches a phrase where its words are adjacent', () => {
+    expect(matchesFilters(parseQuery('"filter housing"'), chunk)).toBe(true);
+    expect(matchesFilters(parseQuery('"housing filter"'), chunk)).toBe(false);
+    expect(matchesFilters(parseQuery('"housing filter" belt'), chunk)).toBe(false);
+  });
+
+  it('leaves plain terms to ranking', () => {
+    expect(hasFilters(parseQuery('belt tension'))).toBe(false);
+    expect(hasFilters(parseQuery('"belt tension"'))).toBe(true);
+  });
+});
@@ -0,0 +1,321 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import { GeminiLLMProvider, MockLLMProvider } from '../llm.js';
+import { vectorStore } from '../vectorStore.js';
+import { createTestApp, uploadFixture } from './helpers.js';
+
+// Splits a server-sent event stream into [{ event, data }]
+const parseEvents = (text) => text
+  .split('\n\n')
+  .filter(Boolean)
+  .map(message => {
+    const [eventLine, dataLine] = message.split('\n');
+    return { event: eventLine.slice('event: '.length), data: JSON.parse(dataLine.slice('data: '.length)) };
+  });
+
+describe('POST /search', () => {
+  let context;
+  let manualId;
+
+  beforeEach(async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({
+        responses: [
+          { match: 'Rewrite the follow-up question', text: 'belt tension adjustment' },
+          { match: 'Question: ', text: 'Check the belt tension monthly (Page 2).' }
+        ]
+      })
+    });
+    ({ result: { manualId } } = await uploadFixture(context.app, 'manual.pdf'));
+  });
+
+  afterEach(() => context.cleanup());
+
+  it('answers from the retrieved sections', async () => {
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: 'belt tension' })
+      .expect(200);
+
+    expect(body.answer).toBe('Check the belt tension monthly (Page 2).');
+    expect(body.found).toBe(true);
+    expect(body.evidence).toMatchObject({ score: 1, sufficient: true });
+    expect(body.grounding).toEqual({
+      score: 1,
+      sentences: [expect.objectContaining({ text: 'Check the belt tension monthly (Page 2).', supported: true })]
+    });
+    // Everything checks out: the question, the statement and the cited page all match,
+    // and the section is close enough in meaning to answer from
+    expect(body.confidence).toBeGreaterThan(0.95);
+    expect(body.confidenceFactors.map(factor => factor.name))
+      .toEqual(['match', 'similarity', 'ranking', 'grounding', 'citations']);
+    expect(body.citations).toEqual([expect.objectContaining({
+      text: 'Page 2',
+      page: 2,
+      manualId,
+      fileName: 'manual.pdf',
+      supported: true
+    })]);
+    expect(body.relevantSections[body.citations[0].sections[0]].page).toBe(2);
+    expect(body.relevantSections[0]).toMatchObject({
+      page: 2,
+      sectionPath: '4 Maintenance > 4.2 Belt tension',
+      manualId,
+      fileName: 'manual.pdf',
+      confidence: 1
+    });
+    expect(body.metadata.manuals[0].pagesSearched).toContain(2);
+
+    // Boxes of the lines the section was read from, as fractions of the page
+    const { highlights } = body.relevantSections[0];
+    expect(highlights.length).toBeGreaterThan(0);
+    highlights.forEach(({ page, box }) => {
+      expect(page).toBe(2);
+      expect(box).toHaveLength(4);
+      box.forEach(value => expect(value).toBeGreaterThanOrEqual(0));
+      expect(box[0] + box[2]).toBeLessThanOrEqual(1);
+      expect(box[1] + box[3]).toBeLessThanOrEqual(1);
+    });
+
+    const [prompt] = context.llmProvider.calls;
+    expect(prompt).toContain('[manual.pdf, Page 2, Section "4 Maintenance > 4.2 Belt tension"]');
+    expect(prompt).toContain('Question: belt tension');
+  });
+
+  it('highlights only the lines of a section that match the question', async () => {
+    const { body } = await request(context.app).post('/search').send({ query: 'cover plate' }).expect(200);
+
+    const section = body.relevantSections.find(({ sectionPath }) => sectionPath.endsWith('4.1 Filter replacement'));
+    // "the cover plate.", "1. Remove the cover." and "2. Tighten the cover screws to 25 Nm.",
+    // not the heading or the line about the power
+    expect(section.highlights).toHaveLength(3);
+  });
+
+  it('flags citations of pages that were not retrieved', async () => {
+    context.llmProvider.responses.unshift({ match: 'Question: ', text: 'Replace the belt every year (Page 9).', used: 0 });
+
+    const { body } = await request(context.app).post('/search').send({ query: 'belt tension' }).expect(200);
+    expect(body.citations).toEqual([expect.objectContaining({ page: 9, manualId: null, supported: false, sections: [] })]);
+  });
+
+  it('only matches a quoted phrase where its words are adjacent', async () => {
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: '"filter housing"' })
+      .expect(200);
+
+    expect(body.relevantSections.length).toBeGreaterThan(0);
+    body.relevantSections.forEach(section => expect(section.text).toMatch(/filter housing/i));
+  });
+
+  it('corrects misspelled words against the manual', async () => {
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: 'belt tenson' })
+      .expect(200);
+
+    expect(body.corrections).toEqual([{ from: 'tenson', to: 'tension' }]);
+    expect(body.relevantSections.length).toBeGreaterThan(0);
+  });
+
+  it('does not call the model when nothing matches', async () => {
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: 'zebra' })
+      .expect(200);
+
+    expect(body.relevantSections).toEqual([]);
+    expect(body.found).toBe(false);
+    expect(body.confidence).toBe(0);
+    expect(context.llmProvider.calls).toHaveLength(0);
+  });
+
+  it('answers "not in the manual" when the sections found match the question poorly', async () => {
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: 'belt replacement warranty interval' })
+      .expect(200);
+
+    expect(body).toMatchObject({ found: false, citations: [], grounding: null, confidence: 0 });
+    expect(body.answer).toMatch(/doesn't seem to be covered in the manual/);
+    expect(body.evidence.sufficient).toBe(false);
+    expect(body.relevantSections.length).toBeGreaterThan(0);
+    expect(context.llmProvider.calls).toHaveLength(0);
+  });
+
+  it('does not let a spelling correction answer an unrelated question', async () => {
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: 'What is the pension plan?' })
+      .expect(200);
+
+    expect(body.corrections).toContainEqual({ from: 'pension', to: 'tension' });
+    expect(body).toMatchObject({ found: false, confidence: 0 });
+    expect(context.llmProvider.calls).toHaveLength(0);
+  });
+
+  it('flags answer sentences the sections do not support', async () => {
+    context.llmProvider.responses.unshift({
+      match: 'Question: ',
+      text: 'Check the belt tension monthly (Page 2). Replace the belt every year with a genuine spare.',
+      used: 0
+    });
+
+    const { body } = await request(context.app).post('/search').send({ query: 'belt tension' }).expect(200);
+    expect(body.grounding.score).toBe(0.5);
+    expect(body.grounding.sentences.map(sentence => sentence.supported)).toEqual([true, false]);
+    expect(body.confidence).toBeGreaterThan(0);
+    expect(body.confidence).toBeLessThan(1);
+  });
+
+  it('validates the request', async () => {
+    await request(context.app).post('/search').send({}).expect(400, { error: 'No search query provided' });
+    // Without a JSON body at all
+    await request(context.app).post('/search').expect(400, { error: 'No search query provided' });
+    await request(context.app).post('/search/stream').expect(400, { error: 'No search query provided' });
+
+    const invalid = await request(context.app).post('/search').send({ query: '"belt' }).expect(400);
+    expect(invalid.body.error).toBe('Invalid search query');
+
+    const unknown = await request(context.app)
+      .post('/search')
+      .send({ query: 'belt', manualIds: ['missing'] })
+      .expect(404);
+    expect(unknown.body.details).toBe('Unknown manual id(s): missing');
+
+    await request(context.app)
+      .post('/search')
+      .send({ query: 'belt', conversationId: 'missing' })
+      .expect(404);
+  });
+
+  it('ranks chunks embedded by another provider lexically', async () => {
+    vectorStore.getManual(manualId).chunks.forEach(chunk => {
+      chunk.embedding = [1, 0, 0];
+    });
+
+    const { body } = await request(context.app).post('/search').send({ query: 'belt tension' }).expect(200);
+    expect(body.relevantSections[0]).toMatchObject({ page: 2, vectorScore: 0 });
+  });
+
+  it('reports an empty library', async () => {
+    await request(context.app).delete(`/manuals/${manualId}`).expect(200);
+
+    const { body } = await request(context.app).post('/search').send({ query: 'belt' }).expect(400);
+    expect(body.error).toBe('No manual content available');
+  });
+
+  it('reports a missing API key before searching', async () => {
+    context.cleanup();
+    context = await createTestApp({ llmProvider: new GeminiLLMProvider({}) });
+    await uploadFixture(context.app, 'manual.pdf');
+
+    const expected = {
+      error: 'API key not configured',
+      details: 'Please check your .env file and ensure VITE_GEMINI_API_KEY is set'
+    };
+    const { body } = await request(context.app).post('/search').send({ query: 'belt tension' }).expect(500);
+    expect(body).toEqual(expected);
+    const stream = await request(context.app).post('/search/stream').send({ query: 'belt tension' }).expect(500);
+    expect(stream.body).toEqual(expected);
+  });
+
+  it('reports model errors', async () => {
+    context.llmProvider.responses.unshift({ match: 'Question: ', error: 'Gemini API error: Too Many Requests', status: 429, used: 0 });
+
+    const { body } = await request(context.app).post('/search').send({ query: 'belt tension' }).expect(500);
+    expect(body).toEqual({
+      error: 'Failed to search the manual',
+      details: 'Gemini API error: Too Many Requests'
+    });
+  });
+
+  it('rewrites follow-up questions using the conversation', async () => {
+    const { body: { conversationId } } = await request(context.app).post('/conversations').expect(201);
+
+    await request(context.app)
+      .post('/search')
+      .send({ query: 'belt tension', conversationId })
+      .expect(200);
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: 'how do I adjust it?', conversationId })
+      .expect(200);
+
+    expect(body.standaloneQuery).toBe('belt tension adjustment');
+    const answerPrompt = context.llmProvider.calls[context.llmProvider.calls.length - 1];
+    expect(answerPrompt).toContain('User: belt tension');
+
+    const { body: conversation } = await request(context.app).get(`/conversations/${conversationId}`).expect(200);
+    expect(conversation.turns.map(turn => turn.question)).toEqual(['belt tension', 'how do I adjust it?']);
+  });
+
+  it('rewrites follow-ups made only of stop words', async () => {
+    const { body: { conversationId } } = await request(context.app).post('/conversations').expect(201);
+
+    // Without a conversation there is nothing to search for
+    const alone = await request(context.app).post('/search').send({ query: 'Why is that?' }).expect(400);
+    expect(alone.body.details).toBe('Query contains no searchable words');
+
+    await request(context.app)
+      .post('/search')
+      .send({ query: 'belt tension', conversationId })
+      .expect(200);
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: 'Why is that?', conversationId })
+      .expect(200);
+
+    expect(body.standaloneQuery).toBe('belt tension adjustment');
+    expect(body.relevantSections[0].page).toBe(2);
+  });
+});
+
+describe('POST /search/stream', () => {
+  let context;
+
+  beforeEach(async () => {
+    context = await createTestApp({
+      llmProvider: new MockLLMProvider({ defaultText: 'Check the belt tension monthly.' })
+    });
+    await uploadFixture(context.app, 'manual.pdf');
+  });
+
+  afterEach(() => context.cleanup());
+
+  it('sends the sources first, then the answer piece by piece', async () => {
+    const response = await request(context.app)
+      .post('/search/stream')
+      .send({ query: 'belt tension' })
+      .expect(200);
+
+    const events = parseEvents(response.text);
+    expect(events[0].event).toBe('sources');
+    expect(events[0].data.relevantSections[0].page).toBe(2);
+
+    const pieces = events.filter(({ event }) => event === 'answer').map(({ data }) => data.text);
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.join('')).toBe('Check the belt tension monthly.');
+    expect(events[events.length - 1]).toEqual({
+      event: 'done',
+      data: {
+        answer: 'Check the belt tension monthly.',
+        found: true,
+        citations: [],
+        grounding: { score: 1, sentences: [expect.objectContaining({ supported: true })] },
+        confidence: 0.99,
+        confidenceFactors: [
+          { name: 'match', score: 1, weight: 0.35 },
+          { name: 'similarity', score: 0.92, weight: 0.12 },
+          { name: 'ranking', score: 1, weight: 0.12 },
+          { name: 'grounding', score: 1, weight: 0.41 }
+        ]
+      }
+    });
+  });
+
+  it('returns validation errors as JSON', async () => {
+    const { body } = await request(context.app).post('/search/stream').send({ query: '-belt' }).expect(400);
+    expect(body.error).toBe('Invalid search query');
+  });
+});
@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import { HashingEmbeddingProvider } from '../embeddings.js';
+import { createTestApp, fixture, uploadFixture, waitForJob } from './helpers.js';
+
+describe('POST /upload', () => {
+  let context;
+
+  beforeEach(async () => {
+    context = await createTestApp();
+  });
+
+  afterEach(() => context.cleanup());
+
+  it('indexes the PDF in a background job and adds it to the library', async () => {
+    const job = await uploadFixture(context.app, 'manual.pdf');
+
+    expect(job.status).toBe('completed');
+    expect(job.percent).toBe(100);
+    const { manualId, metadata } = job.result;
+    expect(metadata).toMatchObject({ fileName: 'manual.pdf', pageCount: 2, ocrPages: [] });
+    expect(metadata.totalChunks).toBeGreaterThan(0);
+
+    const { body } = await request(context.app).get('/manuals').expect(200);
+    expect(body.manuals.map(manual => manual.id)).toEqual([manualId]);
+
+    // Persisted so it survives a restart
+    const stored = path.join(context.manualStorage.dataDir, 'manuals', `${manualId}.json`);
+    expect(fs.existsSync(stored)).toBe(true);
+    // With the original PDF, so it can be processed again without another upload
+    expect(await context.manualStorage.loadPdf(manualId)).toEqual(fs.readFileSync(fixture('manual.pdf')));
+
+    const pdf = await request(context.app).get(`/manuals/${manualId}/pdf`).expect(200);
+    expect(pdf.headers['content-type']).toBe('application/pdf');
+    expect(pdf.body).toEqual(fs.readFileSync(fixture('manual.pdf')));
+  });
+
+  it('keeps tables as structured chunks', async () => {
+    const job = await uploadFixture(context.app, 'table.pdf');
+    expect(job.status).toBe('completed');
+
+    const { body } = await request(context.app)
+      .post('/search')
+      .send({ query: 'torque M8 bolt' })
+      .expect(200);
+    const table = body.relevantSections.find(section => section.table);
+    expect(table.table.headers).toEqual(['Bolt', 'Torque (Nm)', 'Tool']);
+    expect(table.table.rows).toContainEqual(['M8', '25', '13 mm socket']);
+  });
+
+  it('rejects a request without a file', async () => {
+    const { body } = await request(context.app).post('/upload').expect(400);
+    expect(body.error).toBe('No PDF file uploaded');
+  });
+
+  it('fails the job for a file that is not a PDF and leaves the library empty', async () => {
+    const response = await request(context.app)
+      .post('/upload')
+      .attach('pdf', Buffer.from('not a pdf'), 'notes.pdf')
+      .expect(202);
+    const job = await waitForJob(context.app, response.body.jobId);
+
+    expect(job.status).toBe('failed');
+    expect(job.error.error).toBe('Failed to process PDF');
+
+    const { body } = await request(context.app).get('/manuals').expect(200);
+    expect(body.manuals).toEqual([]);
+  });
+
+  it('fails the job for a PDF without text and keeps nothing of it', async () => {
+    const job = await uploadFixture(context.app, 'empty.pdf');
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toEqual({
+      error: 'No text content found in PDF',
+      details: 'The PDF appears to be empty or contains no extractable text'
+    });
+
+    const { body } = await request(context.app).get('/manuals').expect(200);
+    expect(body.manuals).toEqual([]);
+    expect(fs.readdirSync(path.join(context.manualStorage.dataDir, 'manuals'))).toEqual([]);
+  });
+
+  it('only adds a manual to the library once it is indexed', async () => {
+    let resume;
+    const paused = new Promise(resolve => { resume = resolve; });
+    const embeddingProvider = new HashingEmbeddingProvider();
+    const embedDocuments = embeddingProvider.embedDocuments.bind(embeddingProvider);
+    embeddingProvider.embedDocuments = async (texts) => {
+      await paused;
+      return embedDocuments(texts);
+    };
+    context.cleanup();
+    context = await createTestApp({ embeddingProvider });
+
+    const response = await request(context.app).post('/upload').attach('pdf', fixture('manual.pdf')).expect(202);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const { body } = await request(context.app).get('/manuals').expect(200);
+    expect(body.manuals).toEqual([]);
+    const search = await request(context.app).post('/search').send({ query: 'belt tension' }).expect(400);
+    expect(search.body.error).toBe('No manual content available');
+
+    resume();
+    const job = await waitForJob(context.app, response.body.jobId);
+    expect(job.status).toBe('completed');
+    const listed = await request(context.app).get('/manuals').expect(200);
+    expect(listed.body.manuals.map(manual => manual.id)).toEqual([job.result.manualId]);
+  });
+
+  it('removes a manual from the library and from disk', async () => {
+    const { result } = await uploadFixture(context.app, 'manual.pdf');
+
+    await request(context.app).delete(`/manuals/${result.manualId}`).expect(200);
+    await request(context.app).delete(`/manuals/${result.manualId}`).expect(404);
+
+    const stored = path.join(context.manualStorage.dataDir, 'manuals', `${result.manualId}.json`);
+    expect(fs.existsSync(stored)).toBe(false);
+    expect(await context.manualStorage.loadPdf(result.manualId)).toBeNull();
+  });
+});
+
+describe('GET /jobs/:id', () => {
+  let context;
+
+  beforeEach(async () => {
+    context = await createTestApp();
+  });
+
+  afterEach(() => context.cleanup());
+
+  it('returns 404 for an unknown job', async () => {
+    await request(context.app).get('/jobs/unknown').expect(404);
+    await request(context.app).get('/jobs/unknown/events').expect(404);
+  });
+
+  it('streams the final state of a finished job as a server-sent event', async () => {
+    const response = await request(context.app).post('/upload').attach('pdf', fixture('manual.pdf'));
+    await waitForJob(context.app, response.body.jobId);
+
+    const events = await request(context.app).get(`/jobs/${response.body.jobId}/events`).expect(200);
+    expect(events.headers['content-type']).toMatch('text/event-stream');
+    expect(events.text).toMatch(/^event: completed\ndata: /);
+    expect(JSON.parse(events.text.split('data: ')[1]).result.metadata.fileName).toBe('manual.pdf');
+  });
+});
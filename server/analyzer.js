@@ -0,0 +1,103 @@
+import { stemmer } from 'stemmer';
+
+// Text analysis shared by indexing (/upload) and querying (/search):
+// lower-casing, tokenising, stop-word removal and Porter stemming. Also the helpers the
+// grounding, confidence and procedure merging modules compare texts with.
+
+// Deliberately short list: words like "on", "off", "not", "up" and "down" change
+// the meaning of an instruction and are kept.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'could',
+  'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how', 'i', 'if', 'into',
+  'is', 'it', 'its', 'me', 'my', 'of', 'or', 'our', 'shall', 'should', 'so', 'such',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+  'those', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who',
+  'why', 'will', 'with', 'would', 'you', 'your'
+]);
+
+// Shortest word that gets fuzzy-matched; shorter words have too many near neighbours
+const MIN_FUZZY_LENGTH = 4;
+
+export const tokenize = (text) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+export const isStopWord = (token) => STOP_WORDS.has(token);
+
+export const stem = (token) => (/^\p{L}+$/u.test(token) ? stemmer(token) : token);
+
+/**
+ * Analyzes text into { surface, term } pairs: surface is the lower-cased word as
+ * written, term is the stemmed form used for matching. Stop words are dropped.
+ */
+export const analyzeWithSurface = (text) =>
+  tokenize(text)
+    .filter(token => !isStopWord(token))
+    .map(token => ({ surface: token, term: stem(token) }));
+
+export const analyze = (text) => analyzeWithSurface(text).map(token => token.term);
+
+// The distinct analyzed terms of a text
+export const termSet = (text) => new Set(analyze(text));
+
+/**
+ * Share of a set of terms found in another set of terms, between 0 and 1 (0 for no terms)
+ */
+export const coverage = (terms, otherTerms) => {
+  if (terms.size === 0) return 0;
+  let found = 0;
+  terms.forEach(term => {
+    if (otherTerms.has(term)) found++;
+  });
+  return found / terms.size;
+};
+
+// The tokens of a text that contain digits: "Tighten to 2.5 Nm" has "2" and "5"
+export const numbers = (text) => tokenize(text).filter(token => /\p{N}/u.test(token));
+
+/**
+ * Splits text into sentences where the chunker splits them: after sentence-ending
+ * punctuation followed by whitespace, so "2.5 mm" stays whole.
+ * Returns [{ text, start, end }] with [start, end) the sentence's span in text.
+ */
+export const splitSentences = (text) => {
+  const sentences = [];
+  const pattern = /\S[\s\S]*?(?:[.!?](?=\s)|$)/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    const sentence = match[0].trimEnd();
+    sentences.push({ text: sentence, start: match.index, end: match.index + sentence.length });
+  }
+  return sentences;
+};
+
+// Scores are reported with two decimals
+export const roundScore = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Maximum edit distance tolerated for a word: none for short words and numbers,
+ * one for medium words, two for long ones.
+ */
+export const maxEditsFor = (word) => {
+  if (word.length < MIN_FUZZY_LENGTH || /\p{N}/u.test(word)) return 0;
+  return word.length < 8 ? 1 : 2;
+};
+
+/**
+ * Levenshtein distance, giving up (returning maxDistance + 1) once it is exceeded
+ */
+export const editDistance = (a, b, maxDistance = Infinity) => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
@@ -0,0 +1,881 @@
+import express from 'express';
+import cors from 'cors';
+import multer from 'multer';
+import path from 'path';
+import pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js';
+import { vectorStore } from './vectorStore.js';
+import { parseFusionWeights } from './rankFusion.js';
+import { parseQuery, QueryParseError } from './queryParser.js';
+import { chunkDocument } from './chunker.js';
+import { createOcrEngine } from './ocr.js';
+import { jobStore, JobError } from './jobs.js';
+import { conversationStore } from './conversations.js';
+import { extractChunk } from './extraction.js';
+import { mergeProcedures } from './procedureMerge.js';
+import { verifyCitations } from './citations.js';
+import { assessEvidence, groundAnswer, matchHighlights, matchQuery } from './grounding.js';
+import { answerConfidence } from './confidence.js';
+import { expandContext } from './contextWindow.js';
+
+// Constants
+const CHUNK_SIZE = 2000; // Keep the chunk size as is
+const CHUNK_OVERLAP = 200;
+const SEARCH_CHUNK_SIZE = 800; // Smaller chunks for retrieval in /upload
+const SEARCH_CHUNK_OVERLAP = 100;
+const CONTEXT_TOKEN_BUDGET = 400; // Retrieved chunks are widened with their neighbours up to this size
+const EMBEDDING_PROGRESS_BATCH = 64; // Chunks embedded between progress updates
+const OCR_MIN_CHARS_PER_PAGE = 50; // Sparser pages are OCR'd
+const HISTORY_TURNS = 3; // Earlier turns of a conversation included in prompts
+const HISTORY_ANSWER_CHARS = 1500; // Long answers are truncated in the history
+const MAX_RETRIES = 3;
+const RETRY_DELAY = 2000; // 2 seconds
+const RATE_LIMIT_DELAY = 5000; // Increase to 5 seconds between requests
+const BATCH_SIZE = 2; // Reduce to 2 chunks at a time
+
+// Initialize PDF.js worker with font configuration
+pdfjsLib.GlobalWorkerOptions.workerSrc = path.resolve(
+  process.cwd(),
+  'node_modules/pdfjs-dist/legacy/build/pdf.worker.js'
+);
+
+// Configure PDF.js font loading
+const pdfjsOptions = {
+  standardFontDataUrl: path.resolve(
+    process.cwd(),
+    'node_modules/pdfjs-dist/standard_fonts/'
+  ),
+};
+
+// Utility function for delay
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Scale a step's progress (done/total) into its share [from, to] of the job's percent
+const progressBetween = (from, to, done, total) => from + (to - from) * (total > 0 ? done / total : 1);
+
+// Resolve the manuals a search targets: a single manualId, a list of manualIds, or the whole library
+const parseManualIds = (body) => {
+  if (body.manualIds !== undefined) {
+    if (!Array.isArray(body.manualIds) || body.manualIds.some(id => typeof id !== 'string')) {
+      return { error: 'manualIds must be an array of manual ids' };
+    }
+    return { manualIds: body.manualIds };
+  }
+  if (body.manualId !== undefined) {
+    if (typeof body.manualId !== 'string') {
+      return { error: 'manualId must be a string' };
+    }
+    return { manualIds: [body.manualId] };
+  }
+  return { manualIds: [] };
+};
+
+// Earlier turns of a conversation as prompt text
+const formatHistory = (turns) => turns.map(turn => {
+  const answer = turn.answer.length > HISTORY_ANSWER_CHARS
+    ? `${turn.answer.slice(0, HISTORY_ANSWER_CHARS)}...`
+    : turn.answer;
+  return `User: ${turn.question}\nAssistant: ${answer}`;
+}).join('\n\n');
+
+const NO_RESULTS_ANSWER = "I couldn't find any relevant information about that in the manual. Please try rephrasing your question or using different keywords.";
+const NOT_IN_MANUAL_ANSWER = "This doesn't seem to be covered in the manual: the closest sections found don't match the question well enough to answer it. Please try rephrasing your question, or check that the right manual is selected.";
+
+// Create an improved prompt with context
+const buildSearchPrompt = ({ query, searchResults, history }) => `${history.length > 0 ? `This is a follow-up in a conversation about the manuals. Earlier turns:
+    ${formatHistory(history)}
+
+    ` : ''}Based on these sections from the manuals (with file names and page numbers):
+    ${searchResults.filter(result => result.context).map(({ context, ...result }) => {
+      const pages = context.pages.length > 1
+        ? `Pages ${context.pages[0]}-${context.pages[context.pages.length - 1]}`
+        : `Page ${context.pages[0]}`;
+      const section = result.sectionPath ? `, Section "${result.sectionPath}"` : '';
+      const kind = result.table ? ' (table)' : '';
+      return `[${result.fileName}, ${pages}${section}]${kind}: ${result.table ? '\n' : ''}${context.text}`;
+    }).join('\n\n')}
+    
+    Question: ${query}
+    
+    Please answer using only these sections. If they don't contain the answer, say that the manual doesn't cover it instead of answering from general knowledge.
+    The answer should:
+    1. Directly addresses the question
+    2. Includes specific details from the manual
+    3. Lists any steps in order (if applicable)
+    4. Mentions relevant warnings or prerequisites (if any)
+    5. Cites the page numbers when referring to specific information, as "Page N" (after the file name when several manuals are listed); only cite pages of the sections above
+    6. Reproduces the relevant rows of any table it relies on as a Markdown table, citing the table's page
+    
+    Format the response in a clear, easy-to-read manner.`;
+
+// Everything in a search response except the answer
+const searchSources = ({ standaloneQuery, conversationId, manualIds, corrections, queryTerms, correctedTerms, evidence, searchResults }) => {
+  const matches = matchQuery(queryTerms, searchResults, { correctedTerms });
+  return {
+    conversationId,
+    standaloneQuery,
+    // How well the best section matches the question; below the threshold the model isn't asked
+    evidence,
+    relevantSections: searchResults.map((result, index) => ({
+      text: result.text,
+      page: result.page,
+      sectionPath: result.sectionPath,
+      table: result.table,
+      // Where the lines matching the question are drawn in the PDF, for highlighting them in a viewer
+      highlights: matchHighlights(queryTerms, result),
+      manualId: result.manualId,
+      fileName: result.fileName,
+      // Share of the question's terms in the section; rankScore is its fused rank score
+      confidence: matches[index],
+      rankScore: result.score,
+      lexicalScore: result.lexicalScore,
+      vectorScore: result.vectorScore
+    })),
+    corrections,
+    metadata: {
+      manuals: vectorStore.resolveManuals(manualIds).map(manual => ({
+        manualId: manual.metadata.id,
+        fileName: manual.metadata.fileName,
+        totalPages: manual.metadata.pageCount,
+        pagesSearched: [...new Set(searchResults
+          .filter(r => r.manualId === manual.metadata.id)
+          .map(r => r.page))]
+      }))
+    }
+  };
+};
+
+// The answer when the retrieved sections are too weak to answer from; the model isn't asked
+const notFoundResult = (search) => ({
+  answer: search.searchResults.length === 0 ? NO_RESULTS_ANSWER : NOT_IN_MANUAL_ANSWER,
+  found: false,
+  citations: [],
+  grounding: null,
+  ...answerConfidence({
+    evidence: search.evidence,
+    searchResults: search.searchResults,
+    fusionWeights: search.weights,
+    grounding: null
+  })
+});
+
+// A generated answer with its citations, each sentence checked against the sections,
+// and the confidence those checks add up to
+const answerResult = (search, answer) => {
+  const citations = verifyCitations(answer, search.searchResults);
+  const grounding = groundAnswer(answer, search.searchResults);
+  return {
+    answer,
+    found: true,
+    citations,
+    grounding,
+    ...answerConfidence({
+      evidence: search.evidence,
+      searchResults: search.searchResults,
+      fusionWeights: search.weights,
+      grounding,
+      citations
+    })
+  };
+};
+
+// Remember the exchange so follow-up questions can refer to it
+const recordTurn = (search, answer) => {
+  if (!search.conversationId) return;
+  conversationStore.addTurn(search.conversationId, {
+    question: search.query,
+    standaloneQuery: search.standaloneQuery,
+    answer,
+    pages: [...new Set(search.searchResults.map(result => result.page))]
+  });
+};
+
+/**
+ * Builds the Express app. Providers and storage are passed in (rather than read from
+ * the environment) so tests can run it against a mock LLM and a temporary data dir.
+ *
+ *   llmProvider       - see llm.js
+ *   embeddingProvider - see embeddings.js
+ *   manualStorage     - see manualStorage.js
+ *   ocr               - { enabled, language, langPath, minCharsPerPage }
+ *   rateLimitDelay    - pause between LLM requests while extracting instructions (ms)
+ *   retryDelay        - base backoff after a failed extraction request (ms)
+ */
+export const createApp = ({
+  llmProvider,
+  embeddingProvider,
+  manualStorage,
+  ocr = {},
+  rateLimitDelay = RATE_LIMIT_DELAY,
+  retryDelay = RETRY_DELAY
+}) => {
+  const app = express();
+
+  // Configure multer for handling file uploads
+  const upload = multer({ storage: multer.memoryStorage() });
+
+  app.use(cors());
+  app.use(express.json());
+
+  // Chunk a PDF, running OCR on pages whose text layer is empty or too sparse
+  const chunkPdf = async (pdf, chunkOptions) => {
+    const ocrEngine = ocr.enabled === false
+      ? null
+      : createOcrEngine({ language: ocr.language, langPath: ocr.langPath });
+
+    try {
+      return await chunkDocument(pdf, {
+        ...chunkOptions,
+        ocrEngine,
+        ocrMinChars: ocr.minCharsPerPage || OCR_MIN_CHARS_PER_PAGE
+      });
+    } finally {
+      await ocrEngine?.terminate();
+    }
+  };
+
+  // Function to process chunks in batches; onBatchComplete(done, total) reports progress.
+  // Chunks whose reply never fits the schema are reported in chunkErrors and skipped;
+  // the rest are returned as { chunkIndex, value } in chunk order.
+  const processChunksInBatches = async (chunks, onBatchComplete = () => {}) => {
+    const processedChunks = [];
+    const chunkErrors = [];
+    const totalBatches = Math.ceil(chunks.length / BATCH_SIZE);
+
+    for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
+      console.log(`Processing batch ${batchIndex + 1}/${totalBatches}`);
+
+      const batchStart = batchIndex * BATCH_SIZE;
+      const batchEnd = Math.min(batchStart + BATCH_SIZE, chunks.length);
+      const batch = chunks.slice(batchStart, batchEnd);
+
+      // Process each chunk in the batch
+      const batchPromises = batch.map(async (chunk, index) => {
+        let retries = 0;
+
+        while (retries < MAX_RETRIES) {
+          try {
+            // Add delay between requests
+            await delay(rateLimitDelay);
+
+            const { value, error, attempts } = await extractChunk(llmProvider, chunk);
+            if (error) {
+              console.error(`Chunk ${batchStart + index + 1} did not match the schema after ${attempts} attempts: ${error}`);
+              return { chunkIndex: batchStart + index, error };
+            }
+            console.log(`Successfully processed chunk ${batchStart + index + 1}/${chunks.length}`);
+            return { chunkIndex: batchStart + index, value };
+
+          } catch (error) {
+            console.error(`Error processing chunk ${batchStart + index + 1}, attempt ${retries + 1}:`, error);
+            retries++;
+
+            if (retries === MAX_RETRIES) {
+              throw new Error(`Failed to process chunk after ${MAX_RETRIES} attempts: ${error.message}`);
+            }
+
+            await delay(retryDelay * Math.pow(2, retries)); // Exponential backoff
+          }
+        }
+      });
+
+      // Wait for all chunks in the batch to complete
+      const batchResults = await Promise.all(batchPromises);
+      batchResults.forEach(result => {
+        if (result.error) {
+          chunkErrors.push({ chunkIndex: result.chunkIndex, error: result.error });
+        } else {
+          processedChunks.push({ chunkIndex: result.chunkIndex, value: result.value });
+        }
+      });
+      onBatchComplete(batchIndex + 1, totalBatches);
+
+      // Add delay between batches
+      if (batchIndex < totalBatches - 1) {
+        console.log(`Waiting ${rateLimitDelay}ms before processing next batch...`);
+        await delay(rateLimitDelay * 2);
+      }
+    }
+
+    return { processedChunks, chunkErrors };
+  };
+
+  // Index an uploaded PDF into the library, reporting progress on the job
+  const ingestManual = async (job, file) => {
+    let manualId = null;
+    let pdf = null;
+
+    try {
+      jobStore.updateJob(job.id, { stage: 'Parsing pages...', percent: 0 });
+      pdf = await pdfjsLib.getDocument({ 
+        data: new Uint8Array(file.buffer),
+        ...pdfjsOptions
+      }).promise;
+
+      // Section-scoped chunks tagged with their section path
+      const { chunks, ocrPages } = await chunkPdf(pdf, {
+        chunkSize: SEARCH_CHUNK_SIZE,
+        chunkOverlap: SEARCH_CHUNK_OVERLAP,
+        onPage: (pageNum, numPages) => jobStore.updateJob(job.id, {
+          percent: progressBetween(0, 50, pageNum, numPages),
+          detail: `${pageNum}/${numPages} pages parsed`
+        })
+      });
+
+      if (chunks.length === 0) {
+        throw new JobError(
+          'No text content found in PDF',
+          'The PDF appears to be empty or contains no extractable text'
+        );
+      }
+
+      // Every upload becomes a new manual; it joins the library once it is indexed and saved
+      const manual = vectorStore.createManual(file.originalname, pdf.numPages, embeddingProvider.name);
+      manual.metadata.ocrPages = ocrPages;
+
+      // Embed in groups so progress can be reported; remote providers batch within each group
+      jobStore.updateJob(job.id, { stage: 'Embedding chunks...', percent: 50, detail: `0/${chunks.length} chunks embedded` });
+      for (let start = 0; start < chunks.length; start += EMBEDDING_PROGRESS_BATCH) {
+        const group = chunks.slice(start, start + EMBEDDING_PROGRESS_BATCH);
+        const embeddings = await embeddingProvider.embedDocuments(group.map(chunk => chunk.text));
+        group.forEach((chunk, index) => {
+          vectorStore.addChunk(manual, chunk, embeddings[index]);
+        });
+
+        const done = start + group.length;
+        jobStore.updateJob(job.id, {
+          percent: progressBetween(50, 95, done, chunks.length),
+          detail: `${done}/${chunks.length} chunks embedded`
+        });
+      }
+
+      jobStore.updateJob(job.id, { stage: 'Saving manual...', percent: 95, detail: '' });
+      manualId = manual.metadata.id;
+      await manualStorage.savePdf(manualId, file.buffer);
+      await manualStorage.saveManual(manual);
+      vectorStore.addManual(manual);
+
+      const { metadata } = manual;
+      console.log(`Processed PDF ${metadata.fileName} (${manualId}): ${metadata.totalChunks} chunks stored from ${pdf.numPages} pages`);
+
+      return { 
+        message: 'PDF processed and embeddings stored', 
+        manualId,
+        metadata
+      };
+    } catch (error) {
+      console.error('Error processing PDF:', error);
+      // Don't leave a half-saved manual on disk
+      if (manualId) {
+        await manualStorage.deleteManual(manualId).catch(() => {});
+      }
+      if (error instanceof JobError) throw error;
+      throw new JobError('Failed to process PDF', error.message);
+    } finally {
+      // pdf.js keeps the document's fonts and parsed objects until it is destroyed
+      await pdf?.destroy();
+    }
+  };
+
+  // Indexing runs as a background job; follow it with GET /jobs/:id or /jobs/:id/events
+  app.post('/upload', upload.single('pdf'), (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No PDF file uploaded' });
+    }
+
+    const job = jobStore.run('upload', job => ingestManual(job, req.file));
+    res.status(202).json({ jobId: job.id, status: job.status });
+  });
+
+  // List every manual in the library
+  app.get('/manuals', (req, res) => {
+    res.json({ manuals: vectorStore.listManuals() });
+  });
+
+  // The original PDF of a manual, for checking extracted instructions against it
+  app.get('/manuals/:id/pdf', async (req, res) => {
+    const manual = vectorStore.getManual(req.params.id);
+    if (!manual) {
+      return res.status(404).json({ error: 'Manual not found' });
+    }
+
+    try {
+      const buffer = await manualStorage.loadPdf(req.params.id);
+      if (!buffer) {
+        return res.status(404).json({
+          error: 'Original PDF not available',
+          details: 'This manual was added before PDFs were kept; upload it again to view it'
+        });
+      }
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${manual.metadata.fileName.replace(/["\\]/g, '')}"`
+      });
+      res.send(buffer);
+    } catch (error) {
+      console.error('Error reading stored PDF:', error);
+      res.status(500).json({ error: 'Failed to read the stored PDF', details: error.message });
+    }
+  });
+
+  // Remove a manual and its chunks from the library
+  app.delete('/manuals/:id', async (req, res) => {
+    if (!vectorStore.hasManual(req.params.id)) {
+      return res.status(404).json({ error: 'Manual not found' });
+    }
+
+    try {
+      await manualStorage.deleteManual(req.params.id);
+      vectorStore.removeManual(req.params.id);
+      res.json({ message: 'Manual removed', manualId: req.params.id });
+    } catch (error) {
+      console.error('Error removing manual:', error);
+      res.status(500).json({ error: 'Failed to remove manual', details: error.message });
+    }
+  });
+
+  // Extract simplified instructions from a PDF, reporting progress on the job
+  const extractInstructions = async (job, file) => {
+    let pdf;
+    let sectionChunks;
+    let ocrPages;
+
+    try {
+      jobStore.updateJob(job.id, { stage: 'Parsing pages...', percent: 0 });
+      pdf = await pdfjsLib.getDocument({ 
+        data: new Uint8Array(file.buffer),
+        ...pdfjsOptions
+      }).promise;
+
+      ({ chunks: sectionChunks, ocrPages } = await chunkPdf(pdf, {
+        chunkSize: CHUNK_SIZE,
+        chunkOverlap: CHUNK_OVERLAP,
+        onPage: (pageNum, numPages) => jobStore.updateJob(job.id, {
+          percent: progressBetween(0, 20, pageNum, numPages),
+          detail: `${pageNum}/${numPages} pages parsed`
+        })
+      }));
+    } catch (pdfError) {
+      console.error('Error processing PDF:', pdfError);
+      throw new JobError('Failed to process PDF', pdfError.message);
+    } finally {
+      // Only the chunks are needed from here on
+      await pdf?.destroy();
+    }
+
+    if (sectionChunks.length === 0) {
+      throw new JobError(
+        'No text content found in PDF',
+        'The PDF appears to be empty or contains no extractable text'
+      );
+    }
+
+    console.log(`Split PDF into ${sectionChunks.length} chunks`);
+
+    // Give the model the section each chunk comes from
+    const chunks = sectionChunks.map(chunk =>
+      chunk.sectionPath ? `Section: ${chunk.sectionPath}\n${chunk.text}` : chunk.text
+    );
+
+    // Process chunks in batches
+    jobStore.updateJob(job.id, { stage: 'Sending batches to the model...', percent: 20, detail: '' });
+    const { processedChunks, chunkErrors } = await processChunksInBatches(chunks, (done, total) => {
+      jobStore.updateJob(job.id, {
+        percent: progressBetween(20, 95, done, total),
+        detail: `${done}/${total} batches processed`
+      });
+    });
+
+    // Where each skipped chunk came from, so users know what may be missing
+    const skippedChunks = chunkErrors.map(({ chunkIndex, error }) => ({
+      chunk: chunkIndex + 1,
+      page: sectionChunks[chunkIndex].page,
+      sectionPath: sectionChunks[chunkIndex].sectionPath,
+      error
+    }));
+
+    if (processedChunks.length === 0) {
+      throw new JobError(
+        'No instructions could be extracted from the PDF',
+        `The model's replies did not match the expected structure for any section (${skippedChunks.length} sections tried)`
+      );
+    }
+
+    // Merge the procedures found in each chunk
+    jobStore.updateJob(job.id, { stage: 'Merging results...', percent: 95, detail: '' });
+    const { procedures, warnings } = mergeProcedures(processedChunks.map(({ chunkIndex, value }) => ({
+      chunkIndex,
+      value,
+      chunk: sectionChunks[chunkIndex]
+    })));
+    console.log(`Merged ${processedChunks.length} chunks into ${procedures.length} procedures`);
+
+    if (procedures.length === 0) {
+      throw new JobError(
+        'No procedures found in the PDF',
+        'The manual does not appear to describe any step-by-step procedures'
+      );
+    }
+
+    return {
+      title: file.originalname.replace(/\.pdf$/i, ''),
+      procedures,
+      warnings,
+      chunkErrors: skippedChunks,
+      ocrPages
+    };
+  };
+
+  app.post('/api/gemini', upload.single('pdf'), (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No PDF file uploaded' });
+    }
+
+    const configurationError = llmProvider.configurationError();
+    if (configurationError) {
+      console.error(`LLM provider ${llmProvider.name} is not configured: ${configurationError}`);
+      return res.status(500).json({ 
+        error: 'API key not configured',
+        details: configurationError
+      });
+    }
+
+    const job = jobStore.run('instructions', job => extractInstructions(job, req.file));
+    res.status(202).json({ jobId: job.id, status: job.status });
+  });
+
+  // Extract simplified instructions from a manual already in the library, reusing its stored PDF
+  app.post('/manuals/:id/instructions', async (req, res) => {
+    const manual = vectorStore.getManual(req.params.id);
+    if (!manual) {
+      return res.status(404).json({ error: 'Manual not found' });
+    }
+
+    const configurationError = llmProvider.configurationError();
+    if (configurationError) {
+      console.error(`LLM provider ${llmProvider.name} is not configured: ${configurationError}`);
+      return res.status(500).json({ 
+        error: 'API key not configured',
+        details: configurationError
+      });
+    }
+
+    let buffer;
+    try {
+      buffer = await manualStorage.loadPdf(req.params.id);
+    } catch (error) {
+      console.error('Error reading stored PDF:', error);
+      return res.status(500).json({ error: 'Failed to read the stored PDF', details: error.message });
+    }
+    if (!buffer) {
+      return res.status(409).json({
+        error: 'Original PDF not available',
+        details: 'This manual was added before PDFs were kept; upload it again to simplify it'
+      });
+    }
+
+    const file = { buffer, originalname: manual.metadata.fileName };
+    const job = jobStore.run('instructions', job => extractInstructions(job, file));
+    res.status(202).json({ jobId: job.id, status: job.status });
+  });
+
+  // Current state of a background job
+  app.get('/jobs/:id', (req, res) => {
+    const job = jobStore.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(job);
+  });
+
+  // Server-sent events: a "progress" event on every update, then "completed" or "failed"
+  app.get('/jobs/:id/events', (req, res) => {
+    const job = jobStore.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const send = (current) => {
+      const event = current.status === 'running' ? 'progress' : current.status;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(current)}\n\n`);
+      if (current.status !== 'running') {
+        res.end();
+      }
+    };
+
+    send(job);
+    if (job.status !== 'running') return;
+
+    const unsubscribe = jobStore.subscribe(job.id, send);
+    req.on('close', unsubscribe);
+  });
+
+  // Rewrite a follow-up question ("and the second bolt?") into a query that can be
+  // retrieved on its own. Falls back to the question as asked if the rewrite fails.
+  const rewriteFollowUp = async (question, turns) => {
+    if (turns.length === 0) return question;
+
+    const prompt = `Rewrite the follow-up question below as a standalone search query for a product manual.
+      Resolve pronouns and references using the conversation; keep part names, numbers and model names.
+      If the question is already standalone, return it unchanged.
+      Reply with the query only, on a single line, without quotes or explanations.
+
+      Conversation:
+      ${formatHistory(turns)}
+
+      Follow-up question: ${question}`;
+
+    try {
+      const rewritten = (await llmProvider.generate(prompt)).split('\n')[0].trim();
+      // The rewrite is searched with the same query syntax, so it must parse
+      parseQuery(rewritten);
+      return rewritten;
+    } catch (error) {
+      console.warn('Could not rewrite follow-up question, searching it as asked:', error.message);
+      return question;
+    }
+  };
+
+  // Validates a search request and retrieves its passages.
+  // Returns { search } on success, or { status, body } describing the error response.
+  const retrieveForSearch = async (body = {}) => {
+    const { query, conversationId } = body;
+
+    if (!query) {
+      return { status: 400, body: { error: 'No search query provided' } };
+    }
+
+    // Only the syntax is checked here: a follow-up like "And then?" has no searchable
+    // words of its own until it is rewritten with the conversation
+    try {
+      parseQuery(query, { requireTerms: false });
+    } catch (error) {
+      if (error instanceof QueryParseError) {
+        return { status: 400, body: { error: 'Invalid search query', details: error.message } };
+      }
+      throw error;
+    }
+
+    const configurationError = llmProvider.configurationError();
+    if (configurationError) {
+      console.error(`LLM provider ${llmProvider.name} is not configured: ${configurationError}`);
+      return {
+        status: 500,
+        body: {
+          error: 'API key not configured',
+          details: configurationError
+        }
+      };
+    }
+
+    if (conversationId !== undefined && !conversationStore.hasConversation(conversationId)) {
+      return {
+        status: 404,
+        body: {
+          error: 'Conversation not found',
+          details: 'The conversation has expired; start a new one'
+        }
+      };
+    }
+
+    const { manualIds, error: manualIdsError } = parseManualIds(body);
+    if (manualIdsError) {
+      return { status: 400, body: { error: manualIdsError } };
+    }
+
+    const { weights, error: weightsError } = parseFusionWeights(body.weights);
+    if (weightsError) {
+      return { status: 400, body: { error: weightsError } };
+    }
+
+    const unknownIds = manualIds.filter(id => !vectorStore.hasManual(id));
+    if (unknownIds.length > 0) {
+      return {
+        status: 404,
+        body: {
+          error: 'Manual not found',
+          details: `Unknown manual id(s): ${unknownIds.join(', ')}`
+        }
+      };
+    }
+
+    if (vectorStore.totalChunks(manualIds) === 0) {
+      return {
+        status: 400,
+        body: {
+          error: 'No manual content available',
+          details: 'Please upload a manual first'
+        }
+      };
+    }
+
+    // Follow-ups are retrieved with a standalone version of the question
+    const history = conversationId ? conversationStore.recentTurns(conversationId, HISTORY_TURNS) : [];
+    const standaloneQuery = await rewriteFollowUp(query, history);
+    let parsedQuery;
+    try {
+      parsedQuery = parseQuery(standaloneQuery);
+    } catch (error) {
+      if (error instanceof QueryParseError) {
+        return { status: 400, body: { error: 'Invalid search query', details: error.message } };
+      }
+      throw error;
+    }
+
+    // Correct misspelled words against the vocabulary of the searched manuals
+    const analyzedQuery = vectorStore.applyFuzzyMatching(parsedQuery, { manualIds });
+
+    // Get relevant chunks from the lexical and semantic rankings
+    const queryEmbedding = weights.vector > 0 ? await embeddingProvider.embedQuery(analyzedQuery.text) : null;
+    const retrieved = vectorStore.search(analyzedQuery, {
+      queryEmbedding,
+      manualIds,
+      weights,
+      minScore: embeddingProvider.minSimilarity
+    });
+    // Terms replaced by a spelling correction, which count less as evidence
+    const correctedTerms = analyzedQuery.terms.filter((term, index) => term !== parsedQuery.terms[index]);
+
+    // Give the model the steps around each retrieved chunk, not just the chunk
+    const searchResults = expandContext(
+      retrieved,
+      manualId => vectorStore.getManual(manualId).chunks,
+      { tokenBudget: CONTEXT_TOKEN_BUDGET }
+    );
+
+    return {
+      search: {
+        query,
+        standaloneQuery,
+        conversationId: conversationId || null,
+        history,
+        manualIds,
+        weights,
+        corrections: analyzedQuery.corrections,
+        queryTerms: analyzedQuery.terms,
+        correctedTerms,
+        evidence: assessEvidence(analyzedQuery.terms, searchResults, {
+          correctedTerms,
+          answerSimilarity: embeddingProvider.answerSimilarity
+        }),
+        searchResults
+      }
+    };
+  };
+
+  // Search endpoint. Pass a conversationId (from POST /conversations) to ask follow-ups.
+  app.post('/search', async (req, res) => {
+    try {
+      const { search, status, body } = await retrieveForSearch(req.body);
+      if (!search) {
+        return res.status(status).json(body);
+      }
+
+      if (!search.evidence.sufficient) {
+        const result = notFoundResult(search);
+        recordTurn(search, result.answer);
+        return res.json({ ...result, ...searchSources(search) });
+      }
+
+      const answer = (await llmProvider.generate(buildSearchPrompt(search))).trim();
+      recordTurn(search, answer);
+
+      res.json({
+        ...answerResult(search, answer),
+        ...searchSources(search)
+      });
+
+    } catch (error) {
+      console.error('Search error:', error);
+      res.status(500).json({ 
+        error: 'Failed to search the manual', 
+        details: error.message 
+      });
+    }
+  });
+
+  // Streaming variant of /search over server-sent events. Validation errors are returned
+  // as plain JSON; once streaming starts the events are:
+  //   "sources" - relevantSections, evidence, corrections, metadata, conversationId and
+  //               the standalone query, as soon as retrieval is done
+  //   "answer"  - { text } for each piece of the answer as the model produces it
+  //   "done"    - { answer, found, citations, grounding, confidence, confidenceFactors }
+  //               with the complete answer, or found: false and a "not in the manual"
+  //               answer when the evidence is too weak
+  //   "error"   - { error, details } if generation fails part-way
+  app.post('/search/stream', async (req, res) => {
+    let search;
+    try {
+      const retrieval = await retrieveForSearch(req.body);
+      if (!retrieval.search) {
+        return res.status(retrieval.status).json(retrieval.body);
+      }
+      search = retrieval.search;
+    } catch (error) {
+      console.error('Search error:', error);
+      return res.status(500).json({ 
+        error: 'Failed to search the manual', 
+        details: error.message 
+      });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.flushHeaders();
+
+    const send = (event, data) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    send('sources', searchSources(search));
+
+    if (!search.evidence.sufficient) {
+      const result = notFoundResult(search);
+      recordTurn(search, result.answer);
+      send('done', result);
+      return res.end();
+    }
+
+    try {
+      const answer = (await llmProvider.stream(buildSearchPrompt(search), text => send('answer', { text }))).trim();
+      recordTurn(search, answer);
+      send('done', answerResult(search, answer));
+    } catch (error) {
+      console.error('Search error:', error);
+      send('error', { error: 'Failed to search the manual', details: error.message });
+    }
+    res.end();
+  });
+
+  // Start a conversation; pass its id to /search or /search/stream to ask follow-ups
+  app.post('/conversations', (req, res) => {
+    const conversation = conversationStore.createConversation();
+    res.status(201).json({ conversationId: conversation.id });
+  });
+
+  app.get('/conversations/:id', (req, res) => {
+    const conversation = conversationStore.getConversation(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json(conversation);
+  });
+
+  app.delete('/conversations/:id', (req, res) => {
+    if (!conversationStore.removeConversation(req.params.id)) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json({ message: 'Conversation removed', conversationId: req.params.id });
+  });
+
+  return app;
+};
@@ -0,0 +1,78 @@
+// BM25 lexical index. Each manual keeps its own index; corpus statistics (document
+// frequency, average length) are combined across the manuals being searched.
+
+import { analyzeWithSurface } from './analyzer.js';
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export class BM25Index {
+  constructor() {
+    this.postings = new Map(); // term -> Map(docIndex -> term frequency)
+    this.surfaceForms = new Map(); // word as written -> term, for fuzzy matching
+    this.docLengths = [];
+    this.totalLength = 0;
+  }
+
+  get docCount() {
+    return this.docLengths.length;
+  }
+
+  add(text) {
+    const docIndex = this.docLengths.length;
+    const tokens = analyzeWithSurface(text);
+
+    tokens.forEach(({ surface, term }) => {
+      this.surfaceForms.set(surface, term);
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      const docs = this.postings.get(term);
+      docs.set(docIndex, (docs.get(docIndex) || 0) + 1);
+    });
+
+    this.docLengths.push(tokens.length);
+    this.totalLength += tokens.length;
+    return docIndex;
+  }
+
+  hasTerm(term) {
+    return this.postings.has(term);
+  }
+
+  documentFrequency(term) {
+    return this.postings.get(term)?.size || 0;
+  }
+}
+
+/**
+ * Scores every document of the given indexes against the query terms.
+ * Returns one Map(docIndex -> score) per index, containing only documents with a score > 0.
+ */
+export const scoreBM25 = (indexes, queryTerms) => {
+  const docCount = indexes.reduce((sum, index) => sum + index.docCount, 0);
+  const totalLength = indexes.reduce((sum, index) => sum + index.totalLength, 0);
+  const avgDocLength = docCount > 0 ? totalLength / docCount : 0;
+  const terms = [...new Set(queryTerms)];
+
+  // Probabilistic IDF, floored at zero the way Lucene does it
+  const idf = new Map(terms.map(term => {
+    const df = indexes.reduce((sum, index) => sum + index.documentFrequency(term), 0);
+    return [term, Math.log(1 + (docCount - df + 0.5) / (df + 0.5))];
+  }));
+
+  return indexes.map(index => {
+    const scores = new Map();
+    terms.forEach(term => {
+      const docs = index.postings.get(term);
+      if (!docs) return;
+
+      docs.forEach((tf, docIndex) => {
+        const lengthNorm = 1 - BM25_B + BM25_B * (index.docLengths[docIndex] / avgDocLength);
+        const termScore = idf.get(term) * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+        scores.set(docIndex, (scores.get(docIndex) || 0) + termScore);
+      });
+    });
+    return scores;
+  });
+};
@@ -0,0 +1,515 @@
+// Structure-aware chunking: turns a PDF into sections (from the PDF outline, or from
+// headings detected by font size/weight) and splits each section into chunks tagged
+// with their section path, e.g. "4 Maintenance > 4.2 Filter replacement".
+// Pages with too little extractable text go through OCR and feed the same path.
+// Tables found on a page become chunks of their own that keep their rows and columns.
+
+import { detectTables, fontSizeOf, tableToText } from './tableExtractor.js';
+
+const HEADING_SIZE_RATIO = 1.15; // Heading font must be this much larger than body text
+const MAX_HEADING_LENGTH = 100;
+const SECTION_PATH_SEPARATOR = ' > ';
+
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*)\.?\s+\S/;
+const BOLD_FONT = /bold|black|heavy|semibold|demi/i;
+
+const normalizeText = (text) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Boxes are stored as fractions of the page, rounded to keep stored manuals small
+const roundFraction = (value) => Math.round(value * 10000) / 10000;
+
+/**
+ * The box [left, top, width, height] of text spanning x0..x1 with baselines between
+ * yMin and yMax, as fractions of the page measured from its top-left corner, so a
+ * viewer can place highlights at any zoom level
+ */
+const pageBox = (page, { x0, x1, yMin, yMax, fontSize }) => {
+  const [viewX0, viewY0, viewX1, viewY1] = page.view;
+  const width = viewX1 - viewX0;
+  const height = viewY1 - viewY0;
+  const top = viewY1 - (yMax + fontSize);
+  return [
+    roundFraction((x0 - viewX0) / width),
+    roundFraction(top / height),
+    roundFraction((x1 - x0) / width),
+    // Extend below the lowest baseline for descenders
+    roundFraction((yMax - yMin + fontSize * 1.25) / height)
+  ];
+};
+
+const itemBounds = (items) => ({
+  x0: Math.min(...items.map(item => item.transform[4])),
+  x1: Math.max(...items.map(item => item.transform[4] + item.width)),
+  yMin: Math.min(...items.map(item => item.transform[5])),
+  yMax: Math.max(...items.map(item => item.transform[5])),
+  fontSize: Math.max(...items.map(item => fontSizeOf(item)))
+});
+
+// Fonts are only available on the page after its operator list has been loaded
+const isBoldFont = (page, fontName) => {
+  if (!page.commonObjs.has(fontName)) return false;
+  const font = page.commonObjs.get(fontName);
+  return Boolean(font?.bold || font?.black || BOLD_FONT.test(font?.name || ''));
+};
+
+/**
+ * Groups a page's text items into lines: { text, fontSize, bold, page, y, box }.
+ * Items that form a table are replaced by a single line carrying the table.
+ */
+const extractTextLines = async (page, pageNum) => {
+  // Loads the page's fonts, so isBoldFont can read them (extractSections releases the page)
+  await page.getOperatorList();
+  const textContent = await page.getTextContent();
+
+  const tables = detectTables(textContent.items);
+  const tableByItem = new Map();
+  tables.forEach(table => table.itemIndexes.forEach(index => tableByItem.set(index, table)));
+  const emittedTables = new Set();
+
+  const lines = [];
+  let current = null;
+
+  const flush = () => {
+    if (current && current.text.trim()) {
+      const { items, ...line } = current;
+      line.text = line.text.replace(/\s+/g, ' ').trim();
+      line.box = pageBox(page, itemBounds(items));
+      lines.push(line);
+    }
+    current = null;
+  };
+
+  textContent.items.forEach((item, itemIndex) => {
+    const table = tableByItem.get(itemIndex);
+    if (table) {
+      // The table goes where its first item appears in the content stream
+      if (!emittedTables.has(table)) {
+        flush();
+        emittedTables.add(table);
+        const text = tableToText(table);
+        lines.push({
+          text,
+          fontSize: fontSizeOf(item),
+          bold: false,
+          page: pageNum,
+          y: item.transform[5],
+          chars: text.length,
+          box: pageBox(page, itemBounds(table.itemIndexes.map(index => textContent.items[index]))),
+          table: { headers: table.headers, rows: table.rows }
+        });
+      }
+      return;
+    }
+
+    if (!item.str) {
+      if (item.hasEOL) flush();
+      return;
+    }
+
+    const fontSize = fontSizeOf(item);
+    const y = item.transform[5];
+    // Items on another baseline start a new line
+    if (current && Math.abs(current.y - y) > Math.max(current.fontSize, fontSize) * 0.5) {
+      flush();
+    }
+
+    const bold = isBoldFont(page, item.fontName);
+    if (!current) {
+      current = { text: '', fontSize, bold, page: pageNum, y, chars: 0, items: [] };
+    }
+    current.items.push(item);
+
+    current.text += (current.text && !current.text.endsWith(' ') ? ' ' : '') + item.str;
+    current.fontSize = Math.max(current.fontSize, fontSize);
+    current.bold = current.bold && bold;
+    current.chars += item.str.length;
+
+    if (item.hasEOL) flush();
+  });
+  flush();
+
+  return lines;
+};
+
+// Turns OCR output into lines; heights on the page are taken in PDF points so they
+// compare with font sizes from text pages
+const ocrLines = (page, pageNum, result) => {
+  const pageHeight = page.view[3] - page.view[1];
+  return result.lines.map(line => ({
+    text: line.text.replace(/\s+/g, ' '),
+    fontSize: line.box[3] * pageHeight,
+    bold: false,
+    page: pageNum,
+    y: line.y,
+    chars: line.text.length,
+    box: line.box.map(roundFraction),
+    ocr: true
+  }));
+};
+
+/**
+ * Extracts a page's lines, falling back to OCR when the text layer has fewer than
+ * ocrMinChars characters. Returns { lines, ocr } where ocr is { page, confidence } or null.
+ */
+const extractLines = async (page, pageNum, { ocrEngine, ocrMinChars = 0 }) => {
+  const lines = await extractTextLines(page, pageNum);
+  const chars = lines.reduce((sum, line) => sum + line.chars, 0);
+  if (!ocrEngine || chars >= ocrMinChars) {
+    return { lines, ocr: null };
+  }
+
+  try {
+    const result = await ocrEngine.recognizePage(page);
+    const recognized = result ? ocrLines(page, pageNum, result) : [];
+    const recognizedChars = recognized.reduce((sum, line) => sum + line.chars, 0);
+
+    if (recognizedChars > chars) {
+      console.log(`OCR'd page ${pageNum}: ${recognizedChars} characters, confidence ${result.confidence.toFixed(2)}`);
+      return { lines: recognized, ocr: { page: pageNum, confidence: result.confidence } };
+    }
+  } catch (error) {
+    console.error(`OCR failed for page ${pageNum}:`, error.message);
+  }
+  return { lines, ocr: null };
+};
+
+// Resolves outline entries to { title, level, page }, flattened in document order
+const resolveOutline = async (pdf) => {
+  const outline = await pdf.getOutline();
+  if (!outline || outline.length === 0) return [];
+
+  const entries = [];
+  const visit = async (items, level) => {
+    for (const item of items) {
+      let page = null;
+      try {
+        const dest = typeof item.dest === 'string' ? await pdf.getDestination(item.dest) : item.dest;
+        if (Array.isArray(dest) && dest[0]) {
+          page = typeof dest[0] === 'number' ? dest[0] + 1 : (await pdf.getPageIndex(dest[0])) + 1;
+        }
+      } catch (error) {
+        console.warn(`Could not resolve outline entry "${item.title}":`, error.message);
+      }
+      if (page && item.title?.trim()) {
+        entries.push({ title: item.title.trim(), level, page });
+      }
+      if (item.items?.length) {
+        await visit(item.items, level + 1);
+      }
+    }
+  };
+  await visit(outline, 1);
+  return entries;
+};
+
+// Body text size is the font size covering the most characters
+const bodyFontSize = (lines) => {
+  const charsBySize = new Map();
+  lines.forEach(line => {
+    const size = Math.round(line.fontSize * 2) / 2;
+    charsBySize.set(size, (charsBySize.get(size) || 0) + line.chars);
+  });
+  return [...charsBySize.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+};
+
+// Marks headings from the PDF outline; entries with no matching line start at the top of their page
+const applyOutlineHeadings = (lines, outline) => {
+  const headings = [...lines];
+  outline.forEach(entry => {
+    const title = normalizeText(entry.title);
+    const line = headings.find(candidate =>
+      candidate.page === entry.page &&
+      !candidate.heading &&
+      !candidate.table &&
+      (normalizeText(candidate.text) === title || normalizeText(candidate.text).startsWith(title))
+    );
+
+    if (line) {
+      line.heading = { title: entry.title, level: entry.level };
+    } else {
+      const index = headings.findIndex(candidate => candidate.page >= entry.page);
+      const synthetic = {
+        text: '',
+        page: entry.page,
+        heading: { title: entry.title, level: entry.level, synthetic: true }
+      };
+      headings.splice(index === -1 ? headings.length : index, 0, synthetic);
+    }
+  });
+  return headings;
+};
+
+// Detects headings from font size/weight; numbering ("4.2") decides the level when present
+const applyDetectedHeadings = (lines) => {
+  const bodySize = bodyFontSize(lines);
+  const isHeading = (line) =>
+    !line.table &&
+    line.text.length <= MAX_HEADING_LENGTH &&
+    !/[.,;:]$/.test(line.text) &&
+    (line.fontSize >= bodySize * HEADING_SIZE_RATIO || (line.bold && line.fontSize >= bodySize));
+
+  const candidates = lines.filter(isHeading);
+  // Larger fonts rank higher; bold body-size headings come last
+  const sizes = [...new Set(candidates.map(line => Math.round(line.fontSize * 2) / 2))].sort((a, b) => b - a);
+
+  candidates.forEach(line => {
+    const numbering = line.text.match(NUMBERED_HEADING);
+    const level = numbering
+      ? numbering[1].split('.').length
+      : sizes.indexOf(Math.round(line.fontSize * 2) / 2) + 1;
+    line.heading = { title: line.text, level };
+  });
+  return lines;
+};
+
+/**
+ * Reads a PDF into sections: { path: string[], sectionPath: string, lines: [{ text, page, box, heading, ocr, table }] }.
+ * Each section holds the text between its heading and the next heading.
+ * Pass an ocrEngine (see ocr.js) to OCR pages with fewer than ocrMinChars characters;
+ * onPage(pageNum, numPages) is called after each page for progress reporting.
+ * Returns { sections, ocrPages } where ocrPages lists { page, confidence } for every OCR'd page.
+ */
+export const extractSections = async (pdf, options = {}) => {
+  const lines = [];
+  const ocrPages = [];
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    try {
+      const result = await extractLines(page, pageNum, options);
+      lines.push(...result.lines);
+      if (result.ocr) ocrPages.push(result.ocr);
+    } finally {
+      // Loading the operator list decodes every image on the page; only the lines are
+      // needed from here on, so let the page's resources go before reading the next
+      page.cleanup();
+    }
+    options.onPage?.(pageNum, pdf.numPages);
+  }
+
+  const outline = await resolveOutline(pdf);
+  const annotated = outline.length > 0
+    ? applyOutlineHeadings(lines, outline)
+    : applyDetectedHeadings(lines);
+
+  const sections = [];
+  const stack = []; // open headings: { title, level }
+  let current = { path: [], lines: [] };
+
+  annotated.forEach(line => {
+    if (line.heading) {
+      if (current.lines.length > 0) sections.push(current);
+
+      while (stack.length && stack[stack.length - 1].level >= line.heading.level) {
+        stack.pop();
+      }
+      stack.push(line.heading);
+      current = { path: stack.map(heading => heading.title), lines: [] };
+      if (line.heading.synthetic) return;
+    }
+    current.lines.push({
+      text: line.text,
+      page: line.page,
+      box: line.box || null,
+      heading: Boolean(line.heading),
+      ocr: Boolean(line.ocr),
+      table: line.table || null
+    });
+  });
+  if (current.lines.length > 0) sections.push(current);
+
+  return {
+    sections: sections
+      // A section holding nothing but its own heading adds no content
+      .filter(section => section.lines.some(line => !line.heading))
+      .map(section => ({
+        path: section.path,
+        sectionPath: section.path.join(SECTION_PATH_SEPARATOR),
+        lines: section.lines
+      })),
+    ocrPages
+  };
+};
+
+// Where a line is drawn, for highlighting the text that came from it
+const lineHighlight = (line) => (line.box ? { page: line.page, box: line.box } : null);
+
+// Splits a section into sentences, keeping the page each one starts on and, as spans,
+// the part of its text read from each line: { highlight, start, end }
+const sectionSentences = (section) => {
+  const sentences = [];
+  // One object per line, so sentences sharing a line share its highlight
+  const lineHighlights = section.lines.map(lineHighlight);
+  const span = (index, start, end) => (lineHighlights[index] ? [{ highlight: lineHighlights[index], start, end }] : []);
+
+  section.lines.forEach((line, index) => {
+    if (line.table) {
+      sentences.push({
+        text: line.text,
+        pages: new Set([line.page]),
+        spans: span(index, 0, line.text.length),
+        ocr: false,
+        table: line.table
+      });
+      return;
+    }
+
+    const pieces = line.text.split(/(?<=[.!?])\s+/);
+    pieces.forEach((piece, pieceIndex) => {
+      const previous = sentences[sentences.length - 1];
+      const continues = previous && !previous.table && pieceIndex === 0 && index > 0 &&
+        !/[.!?:]$/.test(previous.text) && !section.lines[index - 1].heading;
+      if (continues) {
+        // Line wrapped mid-sentence: glue it to the previous sentence
+        const start = previous.text.length + 1;
+        previous.text += ` ${piece}`;
+        previous.pages.add(line.page);
+        previous.spans.push(...span(index, start, previous.text.length));
+        previous.ocr = previous.ocr || line.ocr;
+      } else {
+        sentences.push({ text: piece, pages: new Set([line.page]), spans: span(index, 0, piece.length), ocr: line.ocr });
+      }
+    });
+  });
+  return sentences;
+};
+
+// A single sentence longer than a chunk is split on word boundaries
+const splitLongText = (text, chunkSize) => {
+  const parts = [];
+  let current = '';
+  text.split(' ').forEach(word => {
+    if (current && current.length + word.length + 1 > chunkSize) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${word}` : word;
+  });
+  if (current) parts.push(current);
+  return parts;
+};
+
+// Splits a sentence longer than a chunk, keeping the spans of the lines in each part
+const splitSentence = (sentence, chunkSize) => {
+  let start = 0;
+  return splitLongText(sentence.text, chunkSize).map(text => {
+    const end = start + text.length;
+    const spans = sentence.spans
+      .filter(span => span.start < end && span.end > start)
+      .map(span => ({ ...span, start: Math.max(span.start, start) - start, end: Math.min(span.end, end) - start }));
+    start = end + 1;
+    return { ...sentence, text, spans };
+  });
+};
+
+// The box of every line a chunk's sentences were read from, with the [start, end) of
+// the text read from it; a line split over several sentences is one highlight
+const chunkHighlights = (sentences) => {
+  const highlights = new Map();
+  let offset = 0;
+  sentences.forEach(sentence => {
+    sentence.spans.forEach(({ highlight, start, end }) => {
+      const existing = highlights.get(highlight);
+      if (existing) {
+        existing.end = offset + end;
+      } else {
+        highlights.set(highlight, { ...highlight, start: offset + start, end: offset + end });
+      }
+    });
+    offset += sentence.text.length + 1;
+  });
+  return [...highlights.values()];
+};
+
+/**
+ * Packs each section's sentences into chunks of at most chunkSize characters,
+ * repeating up to chunkOverlap characters of trailing sentences in the next chunk.
+ * Tables become chunks of their own. Returns { text, page, pages, pageOffsets, highlights, sectionPath, ocr, table, overlapLength }
+ * objects, where pageOffsets lists the character offset in text at which each page's content starts,
+ * highlights the { page, box, start, end } of every line the chunk's text was read from, [start, end)
+ * being the part of text read from that line, and overlapLength the
+ * number of characters at the start of text repeated from the end of the previous chunk.
+ */
+export const chunkSections = (sections, { chunkSize, chunkOverlap = 0 }) => {
+  const chunks = [];
+
+  sections.forEach(section => {
+    let current = [];
+    let length = 0;
+    // Length of the text carried over from the previous chunk at the start of current
+    let carriedLength = 0;
+
+    const emit = () => {
+      const pages = [...new Set(current.flatMap(sentence => [...sentence.pages]))].sort((a, b) => a - b);
+      // Where each page's text starts; a sentence running over a page break counts towards its first page
+      const pageOffsets = [];
+      let offset = 0;
+      current.forEach(sentence => {
+        const page = Math.min(...sentence.pages);
+        if (pageOffsets.length === 0 || pageOffsets[pageOffsets.length - 1].page !== page) {
+          pageOffsets.push({ page, offset });
+        }
+        offset += sentence.text.length + 1;
+      });
+      chunks.push({
+        text: current.map(sentence => sentence.text).join(' '),
+        page: pages[0],
+        pages,
+        pageOffsets,
+        highlights: chunkHighlights(current),
+        sectionPath: section.sectionPath,
+        ocr: current.some(sentence => sentence.ocr),
+        table: current.length === 1 && current[0].table ? current[0].table : null,
+        overlapLength: carriedLength
+      });
+    };
+
+    sectionSentences(section).forEach(sentence => {
+      // Tables are never split or merged with prose
+      if (sentence.table) {
+        if (current.length > 0) emit();
+        current = [sentence];
+        carriedLength = 0;
+        emit();
+        current = [];
+        length = 0;
+        return;
+      }
+
+      const parts = sentence.text.length > chunkSize ? splitSentence(sentence, chunkSize) : [sentence];
+
+      parts.forEach(part => {
+        if (current.length > 0 && length + part.text.length + 1 > chunkSize) {
+          emit();
+          // Carry trailing sentences over as overlap
+          const overlap = [];
+          let overlapLength = 0;
+          for (let i = current.length - 1; i >= 0; i--) {
+            if (overlapLength + current[i].text.length > chunkOverlap) break;
+            overlap.unshift(current[i]);
+            overlapLength += current[i].text.length + 1;
+          }
+          current = overlap;
+          length = overlapLength;
+          carriedLength = overlap.map(sentence => sentence.text).join(' ').length;
+        }
+        current.push(part);
+        length += part.text.length + 1;
+      });
+    });
+
+    if (current.length > 0) emit();
+  });
+
+  return chunks;
+};
+
+/**
+ * Extracts sections from a PDF and chunks them in one go. Returns { chunks, ocrPages }.
+ */
+export const chunkDocument = async (pdf, { chunkSize, chunkOverlap, ...extractOptions }) => {
+  const { sections, ocrPages } = await extractSections(pdf, extractOptions);
+  return {
+    chunks: chunkSections(sections, { chunkSize, chunkOverlap }),
+    ocrPages
+  };
+};
@@ -0,0 +1,117 @@
+// Checks the page citations in an answer against the passages it was generated from.
+// The prompt asks the model to cite pages, but nothing stops it citing a page that was
+// never retrieved (or making one up), so every "Page N" in the answer is resolved to
+// the retrieved passages on that page, or flagged as unsupported when there are none.
+
+// "Page 12", "p. 12", and lists or ranges after the plural forms: "Pages 4 and 5",
+// "pp. 4-6". The singular forms take one number or one range ("Page 2-3") so
+// "Page 2, 4 bolts" cites page 2 only.
+const CITATION = /\b(?:(pages|pp\.)|page|p\.)\s*(\d+)((?:\s*(?:,|and|&|to|-|–)\s*\d+)*)/gi;
+const LISTED_PAGE = /(,|and|&|to|-|–)\s*(\d+)/gi;
+const RANGE_SEPARATOR = /^(?:to|-|–)$/i;
+// A longer range (a whole chapter, or a typo) only cites the pages written
+const MAX_RANGE_PAGES = 20;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The file name written just before a citation, as in "[manual.pdf, Page 2]"
+const citedFileName = (answer, start, fileNames) => {
+  const before = answer.slice(0, start);
+  return fileNames.find(fileName =>
+    new RegExp(`${escapeRegExp(fileName)}\\s*[,:]?\\s*$`, 'i').test(before)
+  ) ?? null;
+};
+
+/**
+ * Finds the page citations in an answer. Returns [{ text, start, end, page, fileName }]
+ * in order, one per cited page, where [start, end) is the span of the answer to link
+ * (for lists, the first span includes the "Pages" prefix and the rest are just the
+ * numbers) and fileName is the manual named before the citation, if any. The pages
+ * inside a range ("pp. 4-6" cites 4, 5 and 6) aren't written out, so they get an empty
+ * span just before the range's last page.
+ */
+export const parseCitations = (answer, fileNames = []) => {
+  const citations = [];
+
+  for (const match of answer.matchAll(CITATION)) {
+    const [whole, plural, firstPage, rest] = match;
+    const fileName = citedFileName(answer, match.index, fileNames);
+    const firstEnd = match.index + whole.length - rest.length;
+    citations.push({
+      text: whole.slice(0, firstEnd - match.index),
+      start: match.index,
+      end: firstEnd,
+      page: Number(firstPage),
+      fileName
+    });
+
+    let previous = Number(firstPage);
+    let listedCount = 0;
+    for (const listed of rest.matchAll(LISTED_PAGE)) {
+      const [item, separator, number] = listed;
+      // After "Page", only a range straight after the number
+      if (!plural && (listedCount > 0 || !RANGE_SEPARATOR.test(separator))) break;
+      listedCount++;
+      const start = firstEnd + listed.index + item.length - number.length;
+      const page = Number(number);
+
+      if (RANGE_SEPARATOR.test(separator) && page > previous && page - previous <= MAX_RANGE_PAGES) {
+        for (let inner = previous + 1; inner < page; inner++) {
+          citations.push({ text: '', start, end: start, page: inner, fileName });
+        }
+      }
+      citations.push({
+        text: number,
+        start,
+        end: start + number.length,
+        page,
+        fileName
+      });
+      previous = page;
+    }
+  }
+
+  return citations;
+};
+
+/**
+ * Parses the citations in an answer and checks each against the retrieved passages
+ * (searchResults, best first). A citation is supported when a passage of the cited
+ * manual - or of any manual, when none is named - is on the cited page, runs onto it,
+ * or was given to the model with context from it.
+ * Returns [{ text, start, end, page, manualId, fileName, supported, sections }] where
+ * sections are the indexes into searchResults of the passages on that page, best first.
+ * Unsupported citations keep the file name they were written with and a null manualId.
+ */
+export const verifyCitations = (answer, searchResults) => {
+  const fileNames = [...new Set(searchResults.map(result => result.fileName))]
+    // Longest first, so "manual-v2.pdf" isn't taken for "v2.pdf"
+    .sort((a, b) => b.length - a.length);
+
+  return parseCitations(answer, fileNames).map(citation => {
+    const sections = searchResults
+      .map((result, index) => ({ result, index }))
+      .filter(({ result }) =>
+        (!citation.fileName || result.fileName.toLowerCase() === citation.fileName.toLowerCase()) &&
+        (result.page === citation.page ||
+          result.highlights?.some(highlight => highlight.page === citation.page) ||
+          result.context?.pages.includes(citation.page))
+      );
+
+    if (sections.length === 0) {
+      return { ...citation, manualId: null, supported: false, sections: [] };
+    }
+
+    // Without a file name the page is taken from the best-ranked manual that has it
+    const { manualId, fileName } = sections[0].result;
+    return {
+      ...citation,
+      manualId,
+      fileName,
+      supported: true,
+      sections: sections
+        .filter(({ result }) => result.manualId === manualId)
+        .map(({ index }) => index)
+    };
+  });
+};
@@ -0,0 +1,94 @@
+import { roundScore } from './analyzer.js';
+import { DEFAULT_FUSION_WEIGHTS, maxFusedScore } from './rankFusion.js';
+
+// How far an answer can be trusted, as one score between 0 and 1. It combines what
+// retrieval found (how well the best sections match the question, in words and in
+// meaning, and whether the lexical and vector rankings agree on them) with the checks
+// run on the answer (sentences backed by a section, cited pages that were retrieved).
+// Each of these is a share between 0 and 1 and the confidence is their weighted
+// average. The weights are set by hand rather than fitted to judged answers, so the
+// number is not a probability of the answer being right: it says how many of the
+// checks an answer passed, and how well, on the same scale for every question.
+
+// How much each factor counts; the checks on the answer itself count most. Factors
+// that don't apply to an answer are left out and the others scaled up.
+const CONFIDENCE_WEIGHTS = {
+  match: 0.3,
+  similarity: 0.1,
+  ranking: 0.1,
+  grounding: 0.35,
+  citations: 0.15
+};
+
+// Scores of what retrieval found; similarity is left out when the vector ranking wasn't
+// used, and both when nothing was found
+const retrievalScores = (evidence, searchResults, fusionWeights) => {
+  if (searchResults.length === 0) return {};
+
+  const scores = {};
+  if (fusionWeights.vector > 0) {
+    scores.similarity = evidence.similarityThreshold
+      ? Math.min(1, evidence.similarity / evidence.similarityThreshold)
+      : evidence.similarity;
+  }
+  scores.ranking = Math.min(1, searchResults[0].score / maxFusedScore(fusionWeights));
+  return scores;
+};
+
+// Weighted average of the scores, with the weights of the factors given
+const combine = (scores) => {
+  const totalWeight = Object.keys(scores).reduce((sum, name) => sum + CONFIDENCE_WEIGHTS[name], 0);
+  return {
+    confidence: roundScore(
+      Object.entries(scores).reduce((sum, [name, score]) => sum + score * CONFIDENCE_WEIGHTS[name], 0) / totalWeight
+    ),
+    confidenceFactors: Object.entries(scores).map(([name, score]) => ({
+      name,
+      score: roundScore(score),
+      weight: roundScore(CONFIDENCE_WEIGHTS[name] / totalWeight)
+    }))
+  };
+};
+
+/**
+ * Combines the evidence, retrieved sections (searchResults, best first, ranked with
+ * fusionWeights), grounding and checked citations of an answer into
+ * { confidence, confidenceFactors }, where confidenceFactors are the
+ * [{ name, score, weight }] it was computed from (weights summing to 1):
+ *   match      - share of the question's terms found in the best section
+ *   similarity - best vectorScore of the sections, as a share of the similarity the
+ *                embedding provider needs to answer from a section (left out when the
+ *                vector ranking wasn't used)
+ *   ranking    - the top section's fused rank score as a share of the most it can be,
+ *                i.e. 1 when both rankings put it first (left out when nothing was found)
+ *   grounding  - share of the answer's sentences a section supports (left out when
+ *                no sentence could be checked)
+ *   citations  - share of the cited pages that were retrieved (left out when the
+ *                answer cites none)
+ * Without an answer (grounding null) the confidence is 0 and only the retrieval
+ * factors are given.
+ */
+export const answerConfidence = ({
+  evidence,
+  searchResults = [],
+  fusionWeights = DEFAULT_FUSION_WEIGHTS,
+  grounding,
+  citations = []
+}) => {
+  const scores = {
+    match: evidence.score,
+    ...retrievalScores(evidence, searchResults, fusionWeights)
+  };
+
+  if (!grounding) {
+    return { ...combine(scores), confidence: 0 };
+  }
+
+  if (grounding.sentences.length > 0) {
+    scores.grounding = grounding.score;
+  }
+  if (citations.length > 0) {
+    scores.citations = citations.filter(citation => citation.supported).length / citations.length;
+  }
+  return combine(scores);
+};
@@ -0,0 +1,90 @@
+import { encode } from 'gpt-3-encoder';
+
+// Chunks are kept small for retrieval, often a sentence or two, so a retrieved chunk
+// can lack the context it needs ("Tighten to 25 Nm." without the step it belongs to).
+// Before the prompt is built, each passage is widened with the chunks around it in the
+// same section, up to a token budget, and passages whose windows would overlap are
+// merged into the better-ranked one so the model doesn't read the same text twice.
+
+export const countTokens = (text) => encode(text).length;
+
+// Whether a neighbouring chunk belongs with a passage: the same section, or the same
+// page for manuals without headings. Tables are retrieved on their own and never joined.
+const sameContext = (passage, neighbour) =>
+  !neighbour.table &&
+  (passage.sectionPath ? neighbour.sectionPath === passage.sectionPath : neighbour.page === passage.page);
+
+/**
+ * Joins the text of two consecutive chunks, dropping the sentences the second repeats
+ * from the end of the first: the chunker records their length as overlapLength
+ * (missing, and taken as 0, for manuals indexed before it did)
+ */
+export const joinChunks = (text, next) => {
+  const overlapLength = next.overlapLength || 0;
+  return overlapLength > 0
+    ? `${text}${next.text.slice(overlapLength)}`
+    : `${text} ${next.text}`;
+};
+
+const windowText = (chunks, first, last) =>
+  chunks.slice(first + 1, last + 1).reduce(joinChunks, chunks[first].text);
+
+/**
+ * Widens each retrieved passage (searchResults, best first, with their manualId and
+ * chunkIndex) with neighbouring chunks of the same section, one at a time on
+ * alternate sides, while the text stays within tokenBudget tokens. chunksOf(manualId)
+ * gives a manual's chunks in document order.
+ * Returns the results with context: { text, pages, chunkIndexes: [first, last] } added,
+ * or context: null for a result whose chunk is already in a better result's context.
+ */
+export const expandContext = (searchResults, chunksOf, { tokenBudget }) => {
+  const used = new Set();
+  const key = (manualId, chunkIndex) => `${manualId}:${chunkIndex}`;
+
+  return searchResults.map(result => {
+    if (used.has(key(result.manualId, result.chunkIndex))) {
+      return { ...result, context: null };
+    }
+
+    const chunks = chunksOf(result.manualId);
+    const passage = chunks[result.chunkIndex];
+    let first = result.chunkIndex;
+    let last = result.chunkIndex;
+
+    if (!passage.table) {
+      const fits = (index, from, to) =>
+        index >= 0 && index < chunks.length &&
+        !used.has(key(result.manualId, index)) &&
+        sameContext(passage, chunks[index]) &&
+        countTokens(windowText(chunks, from, to)) <= tokenBudget;
+
+      let grew = true;
+      while (grew) {
+        grew = false;
+        if (fits(last + 1, first, last + 1)) {
+          last++;
+          grew = true;
+        }
+        if (fits(first - 1, first - 1, last)) {
+          first--;
+          grew = true;
+        }
+      }
+    }
+
+    for (let index = first; index <= last; index++) {
+      used.add(key(result.manualId, index));
+    }
+    const pages = [...new Set(chunks.slice(first, last + 1).flatMap(chunk => chunk.pages || [chunk.page]))]
+      .sort((a, b) => a - b);
+
+    return {
+      ...result,
+      context: {
+        text: windowText(chunks, first, last),
+        pages,
+        chunkIndexes: [first, last]
+      }
+    };
+  });
+};
@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+
+const MAX_TURNS = 20; // Older turns are dropped; prompts only use the most recent ones
+const CONVERSATION_TTL = 24 * 60 * 60 * 1000; // Idle conversations are forgotten after a day
+
+// Follow-up Q&A sessions. Each turn keeps the user's question, the standalone query it
+// was rewritten into for retrieval, and the answer, so later questions can refer back.
+export const conversationStore = {
+  conversations: new Map(),
+
+  createConversation: function() {
+    this.pruneIdle();
+
+    const now = new Date().toISOString();
+    const conversation = {
+      id: randomUUID(),
+      turns: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  },
+  getConversation: function(conversationId) {
+    return this.conversations.get(conversationId) || null;
+  },
+  hasConversation: function(conversationId) {
+    return this.conversations.has(conversationId);
+  },
+  // Turn: { question, standaloneQuery, answer, pages }
+  addTurn: function(conversationId, turn) {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) return;
+
+    conversation.turns.push({ ...turn, askedAt: new Date().toISOString() });
+    if (conversation.turns.length > MAX_TURNS) {
+      conversation.turns.splice(0, conversation.turns.length - MAX_TURNS);
+    }
+    conversation.updatedAt = new Date().toISOString();
+  },
+  // The last `limit` turns, oldest first
+  recentTurns: function(conversationId, limit) {
+    const conversation = this.conversations.get(conversationId);
+    return conversation ? conversation.turns.slice(-limit) : [];
+  },
+  removeConversation: function(conversationId) {
+    return this.conversations.delete(conversationId);
+  },
+  pruneIdle: function() {
+    const cutoff = Date.now() - CONVERSATION_TTL;
+    for (const [id, conversation] of this.conversations) {
+      if (Date.parse(conversation.updatedAt) < cutoff) {
+        this.conversations.delete(id);
+      }
+    }
+  }
+};
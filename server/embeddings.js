@@ -0,0 +1,162 @@
+import fetch from 'node-fetch';
+
+/**
+ * Embedding providers turn text into vectors for semantic search.
+ *
+ * Every provider exposes the same shape:
+ *   name            - identifies the vector space; stored with each manual so
+ *                     vectors from different providers are never compared
+ *   minSimilarity   - cosine similarity below which a chunk is not considered a match
+ *   answerSimilarity - cosine similarity from which a chunk is taken to answer the
+ *                     query even when it shares few of its words (a paraphrase)
+ *   embedDocuments(texts: string[]): Promise<number[][]>
+ *   embedQuery(text: string): Promise<number[]>
+ */
+
+const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+const GEMINI_EMBEDDING_BATCH_SIZE = 100; // API limit per batchEmbedContents call
+const EMBEDDING_MAX_RETRIES = 3;
+const EMBEDDING_RETRY_DELAY = 2000;
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// 32-bit FNV-1a hash
+const hashString = (value) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (vector) => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+};
+
+/**
+ * Offline provider using the hashing trick: word unigrams and bigrams are hashed
+ * into a fixed-size vector with sublinear term frequency. No model download needed.
+ */
+export class HashingEmbeddingProvider {
+  constructor({ dimension = 1024 } = {}) {
+    this.dimension = dimension;
+    this.name = `local-hashing-${dimension}`;
+    this.minSimilarity = 0.05;
+    // Hashed words can't recognise a paraphrase, so only near-identical text counts
+    this.answerSimilarity = 0.6;
+  }
+
+  embed(text) {
+    const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+    const features = [...words];
+    for (let i = 0; i < words.length - 1; i++) {
+      features.push(`${words[i]} ${words[i + 1]}`);
+    }
+
+    const counts = new Map();
+    features.forEach(feature => {
+      const hash = hashString(feature);
+      const index = hash % this.dimension;
+      // The top bit picks a sign so collisions tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      counts.set(index, (counts.get(index) || 0) + sign);
+    });
+
+    const vector = new Array(this.dimension).fill(0);
+    counts.forEach((count, index) => {
+      vector[index] = Math.sign(count) * (1 + Math.log(Math.abs(count) || 1));
+    });
+    return normalize(vector);
+  }
+
+  async embedDocuments(texts) {
+    return texts.map(text => this.embed(text));
+  }
+
+  async embedQuery(text) {
+    return this.embed(text);
+  }
+}
+
+/**
+ * Gemini text embeddings via the batchEmbedContents endpoint
+ */
+export class GeminiEmbeddingProvider {
+  constructor({ apiKey, model = GEMINI_EMBEDDING_MODEL }) {
+    if (!apiKey) {
+      throw new Error('A Gemini API key is required for Gemini embeddings');
+    }
+    this.apiKey = apiKey;
+    this.model = model;
+    this.name = `gemini-${model}`;
+    this.minSimilarity = 0.3;
+    this.answerSimilarity = 0.65;
+  }
+
+  async embedBatch(texts, taskType) {
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:batchEmbedContents?key=${this.apiKey}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            requests: texts.map(text => ({
+              model: `models/${this.model}`,
+              content: { parts: [{ text }] },
+              taskType
+            }))
+          })
+        }
+      );
+
+      if (response.status === 429 && attempt < EMBEDDING_MAX_RETRIES) {
+        console.log(`Rate limit hit while embedding, retrying after ${EMBEDDING_RETRY_DELAY * attempt}ms...`);
+        await delay(EMBEDDING_RETRY_DELAY * attempt);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Gemini embedding API error: ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      if (!Array.isArray(result.embeddings) || result.embeddings.length !== texts.length) {
+        throw new Error('Invalid response from Gemini embedding API');
+      }
+      return result.embeddings.map(embedding => embedding.values);
+    }
+  }
+
+  async embedDocuments(texts) {
+    const embeddings = [];
+    for (let i = 0; i < texts.length; i += GEMINI_EMBEDDING_BATCH_SIZE) {
+      const batch = texts.slice(i, i + GEMINI_EMBEDDING_BATCH_SIZE);
+      embeddings.push(...await this.embedBatch(batch, 'RETRIEVAL_DOCUMENT'));
+    }
+    return embeddings;
+  }
+
+  async embedQuery(text) {
+    const [embedding] = await this.embedBatch([text], 'RETRIEVAL_QUERY');
+    return embedding;
+  }
+}
+
+/**
+ * Picks the embedding provider from configuration (EMBEDDING_PROVIDER=local|gemini)
+ */
+export const createEmbeddingProvider = ({ provider = 'local', apiKey, model } = {}) => {
+  switch (provider) {
+    case 'local':
+      return new HashingEmbeddingProvider();
+    case 'gemini':
+      return new GeminiEmbeddingProvider({ apiKey, model });
+    default:
+      throw new Error(`Unknown embedding provider: ${provider}`);
+  }
+};
@@ -0,0 +1,216 @@
+import { z } from 'zod';
+import { InvalidJSONError } from './llm.js';
+
+// Structured instruction extraction from one chunk of a manual: the procedures it
+// describes (title, prerequisites, tools, warnings, ordered steps) and any general
+// warnings. The model is asked for JSON matching chunkExtractionJsonSchema; replies are
+// repaired where the intent is clear (a string instead of a list, a synonym for a
+// field name) and validated with zod. Replies that still don't fit are sent back with
+// the validation errors.
+
+const MAX_REPAIR_ATTEMPTS = 2; // Re-asks after the first reply fails validation
+
+const itemList = z.array(z.string().trim().min(1));
+
+export const procedureSchema = z.object({
+  title: z.string().trim().min(1),
+  prerequisites: itemList,
+  tools: itemList,
+  warnings: itemList,
+  // A procedure without steps is just a heading
+  steps: itemList.min(1)
+});
+
+export const chunkExtractionSchema = z.object({
+  procedures: z.array(procedureSchema),
+  // Safety information that isn't tied to one procedure
+  warnings: itemList
+});
+
+const stringList = { type: 'array', items: { type: 'string' } };
+
+// The same shape as a JSON schema, for the providers' structured output modes
+export const chunkExtractionJsonSchema = {
+  type: 'object',
+  properties: {
+    procedures: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          prerequisites: stringList,
+          tools: stringList,
+          warnings: stringList,
+          steps: stringList
+        },
+        required: ['title', 'prerequisites', 'tools', 'warnings', 'steps']
+      }
+    },
+    warnings: stringList
+  },
+  required: ['procedures', 'warnings']
+};
+
+// Names models commonly use instead of the schema's field names
+const PROCEDURE_ALIASES = ['procedures', 'procedure', 'tasks'];
+const FIELD_ALIASES = {
+  title: ['title', 'name', 'procedure_name', 'procedureName', 'task'],
+  prerequisites: ['prerequisites', 'requirements', 'before_you_begin', 'preparation', 'key_points', 'keyPoints'],
+  tools: ['tools', 'tools_required', 'toolsRequired', 'equipment', 'parts'],
+  warnings: ['warnings', 'warning', 'cautions', 'safety_warnings', 'safetyWarnings'],
+  steps: ['steps', 'step', 'instructions']
+};
+const LIST_FIELDS = ['prerequisites', 'tools', 'warnings', 'steps'];
+
+// Fields of an object-shaped list item that hold its text, e.g. { "step": 1, "text": "..." }
+const ITEM_TEXT_FIELDS = ['text', 'description', 'instruction', 'step', 'content', 'value'];
+
+const isObject = (value) => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const findAlias = (data, aliases) => aliases.find(name => data[name] !== undefined);
+
+const repairItem = (item) => {
+  if (typeof item === 'number') return String(item);
+  if (isObject(item)) {
+    const field = ITEM_TEXT_FIELDS.find(name => typeof item[name] === 'string');
+    return field ? item[field] : item;
+  }
+  return item;
+};
+
+const repairList = (value) => {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .map(repairItem)
+    .filter(item => !(typeof item === 'string' && !item.trim()));
+};
+
+const repairProcedure = (procedure) => {
+  if (!isObject(procedure)) return procedure;
+
+  const titleAlias = findAlias(procedure, FIELD_ALIASES.title);
+  const repaired = { title: titleAlias ? procedure[titleAlias] : undefined };
+  LIST_FIELDS.forEach(field => {
+    const alias = findAlias(procedure, FIELD_ALIASES[field]);
+    repaired[field] = repairList(alias ? procedure[alias] : undefined);
+  });
+  return repaired;
+};
+
+/**
+ * Repairs common deviations from the schema without guessing at content: a wrapper
+ * object ({ "result": {...} }), aliased field names, a single procedure instead of a
+ * list (or its fields at the top level), single strings instead of lists, object-shaped
+ * list items, and lists left out when other fields are present
+ */
+export const repairChunkExtraction = (raw) => {
+  let data = raw;
+  if (isObject(data)) {
+    const keys = Object.keys(data);
+    const known = [...PROCEDURE_ALIASES, ...Object.values(FIELD_ALIASES).flat()];
+    if (keys.length === 1 && !known.includes(keys[0]) && isObject(data[keys[0]])) {
+      data = data[keys[0]];
+    }
+  }
+  if (!isObject(data)) {
+    return data;
+  }
+
+  const proceduresAlias = findAlias(data, PROCEDURE_ALIASES);
+  if (proceduresAlias) {
+    const procedures = data[proceduresAlias];
+    const warningsAlias = findAlias(data, FIELD_ALIASES.warnings);
+    return {
+      procedures: (Array.isArray(procedures) ? procedures : [procedures]).map(repairProcedure),
+      warnings: repairList(warningsAlias ? data[warningsAlias] : undefined)
+    };
+  }
+
+  // A lone procedure at the top level
+  if (findAlias(data, FIELD_ALIASES.steps)) {
+    return { procedures: [repairProcedure(data)], warnings: [] };
+  }
+
+  // Nothing recognisable to repair; leave it for validation to reject
+  return data;
+};
+
+// Zod issues as "steps.2: Expected string, received object; ..."
+const formatIssues = (error) => error.issues
+  .map(issue => `${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`)
+  .join('; ');
+
+/**
+ * Repairs and validates a model reply.
+ * Returns { value } with the extraction, or { error } describing why it doesn't fit.
+ */
+export const validateChunkExtraction = (raw) => {
+  const result = chunkExtractionSchema.safeParse(repairChunkExtraction(raw));
+  if (!result.success) {
+    return { error: formatIssues(result.error) };
+  }
+  return { value: result.data };
+};
+
+export const buildExtractionPrompt = (chunk) => `Analyze this section of a technical manual and extract the procedures it describes:
+    ${chunk}
+
+    Format your response as a JSON object with this structure:
+    {
+      "procedures": [
+        {
+          "title": "What the procedure achieves, e.g. Replace the air filter",
+          "prerequisites": ["Condition or preparation needed before starting", ...],
+          "tools": ["Tool or part needed", ...],
+          "warnings": ["Warning that applies to this procedure", ...],
+          "steps": ["Step 1", "Step 2", ...]
+        }
+      ],
+      "warnings": ["General safety warning not tied to one procedure", ...]
+    }
+    Keep the steps in the order the manual gives them. Every list item must be a plain string.
+    Use an empty list when the section has none.`;
+
+const buildRepairPrompt = (chunk, reply, error) => `${buildExtractionPrompt(chunk)}
+
+    Your previous reply did not match this structure:
+    ${reply}
+
+    Problems: ${error}
+    Reply again with only the corrected JSON object.`;
+
+/**
+ * Extracts the procedures and general warnings in a chunk, re-asking the model with
+ * the validation errors when its reply doesn't fit the schema.
+ * Returns { value, attempts } or { error, attempts } once the attempts are used up.
+ * Provider errors (network, rate limits) are thrown for the caller to retry.
+ */
+export const extractChunk = async (llmProvider, chunk) => {
+  let prompt = buildExtractionPrompt(chunk);
+  let error;
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+    let raw;
+    let reply;
+    try {
+      raw = await llmProvider.generateJSON(prompt, { schema: chunkExtractionJsonSchema });
+      reply = JSON.stringify(raw);
+    } catch (replyError) {
+      if (!(replyError instanceof InvalidJSONError)) throw replyError;
+      error = 'The reply was not valid JSON';
+      prompt = buildRepairPrompt(chunk, replyError.text, error);
+      continue;
+    }
+
+    const validation = validateChunkExtraction(raw);
+    if (!validation.error) {
+      return { value: validation.value, attempts: attempt };
+    }
+    error = validation.error;
+    prompt = buildRepairPrompt(chunk, reply, error);
+  }
+
+  return { error, attempts: MAX_REPAIR_ATTEMPTS + 1 };
+};
@@ -0,0 +1,174 @@
+import { analyze, coverage, numbers, roundScore, splitSentences, termSet } from './analyzer.js';
+import { parseCitations } from './citations.js';
+
+// Checks how well an answer is backed by the passages it was generated from.
+// Before generation, the query's terms are looked up in the retrieved passages: when
+// even the best one covers too few of them the manual most likely doesn't answer the
+// question, and asking the model anyway invites a made-up procedure. After generation,
+// every sentence of the answer is scored against the passages the same way.
+
+const MIN_EVIDENCE = 0.5; // Share of the query's terms the best passage needs to answer from it
+// A spelling correction may have turned an unrelated word into one the manual has
+// ("pension" -> "tension"), so a corrected term only counts this much when found
+const CORRECTED_TERM_WEIGHT = 0.5;
+const MIN_SUPPORT = 0.6; // Share of a sentence's terms a passage needs to support it
+const MIN_CLAIM_TERMS = 3; // Shorter sentences ("Steps:", "Here's how:") aren't checked
+
+// A passage as the model read it (with its surrounding context, if it was widened),
+// headings included since they often name what the passage is about
+const passageText = (result) => `${result.sectionPath || ''} ${result.context?.text ?? result.text}`;
+
+const passageTermSets = (searchResults) => searchResults.map(result => termSet(passageText(result)));
+
+/**
+ * How well each retrieved passage matches the query: the share of its terms (parsed
+ * and spell-corrected, as searched) found in the passage, between 0 and 1. Terms in
+ * correctedTerms were produced by a spelling correction and count CORRECTED_TERM_WEIGHT.
+ */
+export const matchQuery = (queryTerms, searchResults, { correctedTerms = [] } = {}) => {
+  const terms = new Set(queryTerms);
+  const corrected = new Set(correctedTerms);
+  return passageTermSets(searchResults).map(passageTerms => {
+    if (terms.size === 0) return 0;
+    let found = 0;
+    terms.forEach(term => {
+      if (passageTerms.has(term)) found += corrected.has(term) ? CORRECTED_TERM_WEIGHT : 1;
+    });
+    return roundScore(found / terms.size);
+  });
+};
+
+/**
+ * How much support the retrieved passages give the query. The best passage has to
+ * match enough of the query's words (see matchQuery), or be semantically close enough
+ * to it (vectorScore of at least answerSimilarity, the embedding provider's threshold)
+ * for paraphrased questions. Returns { score, threshold, similarity,
+ * similarityThreshold, sufficient, section } where score is the best word match,
+ * similarity the best vector score, and section the index in searchResults of the
+ * passage that made the evidence sufficient (or the best match when nothing did);
+ * null when no passage shares a term with the query.
+ */
+export const assessEvidence = (queryTerms, searchResults, { correctedTerms = [], answerSimilarity = Infinity } = {}) => {
+  let score = 0;
+  let section = null;
+  matchQuery(queryTerms, searchResults, { correctedTerms }).forEach((passageScore, index) => {
+    if (passageScore > score) {
+      score = passageScore;
+      section = index;
+    }
+  });
+
+  let similarity = 0;
+  let closest = null;
+  searchResults.forEach((result, index) => {
+    if ((result.vectorScore || 0) > similarity) {
+      similarity = result.vectorScore;
+      closest = index;
+    }
+  });
+
+  const matched = score >= MIN_EVIDENCE;
+  const similar = similarity >= answerSimilarity;
+  return {
+    score,
+    threshold: MIN_EVIDENCE,
+    similarity: roundScore(similarity),
+    similarityThreshold: Number.isFinite(answerSimilarity) ? answerSimilarity : null,
+    sufficient: searchResults.length > 0 && (matched || similar),
+    section: !matched && similar ? closest : section
+  };
+};
+
+/**
+ * The highlights of a retrieved passage drawn around the text that matches the query:
+ * those whose part of the passage ([start, end), see chunkSections) has one of its
+ * terms. All of them when none has (the passage was found by meaning) or they don't
+ * record their text (manuals indexed before highlights did). Returns [{ page, box }].
+ */
+export const matchHighlights = (queryTerms, result) => {
+  const terms = new Set(queryTerms);
+  const highlights = result.highlights || [];
+  const matched = highlights.filter(({ start, end }) =>
+    end !== undefined && analyze(result.text.slice(start, end)).some(term => terms.has(term))
+  );
+  return (matched.length > 0 ? matched : highlights).map(({ page, box }) => ({ page, box }));
+};
+
+// Lines of Markdown that aren't statements: table separators and code fences
+const SKIPPED_LINE = /^\s*(?:\|?\s*:?-{3,}|`{3,})/;
+// List markers, heading hashes, quote marks and table pipes at the start of a line
+const LINE_PREFIX = /^\s*(?:[-*+>|#]+\s*|\d+[.)]\s+)*/;
+
+// Answer sentences with their offsets: each line is split where the chunker splits
+// sentences, so "2.5 mm" stays whole
+const answerSentences = (answer) => {
+  const sentences = [];
+  let lineStart = 0;
+  answer.split('\n').forEach(line => {
+    if (!SKIPPED_LINE.test(line)) {
+      const offset = lineStart + line.match(LINE_PREFIX)[0].length;
+      splitSentences(answer.slice(offset, lineStart + line.length)).forEach(sentence => {
+        sentences.push({ ...sentence, start: offset + sentence.start, end: offset + sentence.end });
+      });
+    }
+    lineStart += line.length + 1;
+  });
+  return sentences;
+};
+
+// A sentence without its citations and the file names they mention, which say where
+// a claim comes from rather than what it is
+const claimText = (text, fileNames) => {
+  let claim = text;
+  parseCitations(text).reverse().forEach(({ start, end }) => {
+    claim = `${claim.slice(0, start)} ${claim.slice(end)}`;
+  });
+  fileNames.forEach(fileName => {
+    claim = claim.split(fileName).join(' ');
+  });
+  return claim;
+};
+
+/**
+ * Scores each sentence of an answer against the retrieved passages: a sentence is
+ * supported when one passage has at least MIN_SUPPORT of its terms and every number
+ * it states. Returns { score, sentences } where score is the share of checked sentences
+ * that are supported (1 when there are none) and sentences are
+ * [{ text, start, end, score, supported, section }] for every sentence long enough to
+ * check, section being the index in searchResults of the passage that best supports it.
+ */
+export const groundAnswer = (answer, searchResults) => {
+  const passages = passageTermSets(searchResults);
+  // A sentence stating a number no passage has isn't supported
+  const passageNumbers = searchResults.map(result => new Set(numbers(passageText(result))));
+  const fileNames = [...new Set(searchResults.map(result => result.fileName))];
+
+  const sentences = answerSentences(answer)
+    .map(sentence => {
+      const claim = claimText(sentence.text, fileNames);
+      return { ...sentence, terms: termSet(claim), numbers: numbers(claim) };
+    })
+    .filter(sentence => sentence.terms.size >= MIN_CLAIM_TERMS)
+    .map(({ terms, numbers: stated, ...sentence }) => {
+      let best = { score: 0, section: null };
+      passages.forEach((passageTerms, index) => {
+        const score = coverage(terms, passageTerms);
+        if (score > best.score) best = { score, section: index };
+      });
+
+      const numbersFound = best.section !== null &&
+        stated.every(number => passageNumbers[best.section].has(number));
+      return {
+        ...sentence,
+        score: roundScore(best.score),
+        supported: best.score >= MIN_SUPPORT && numbersFound,
+        section: best.section
+      };
+    });
+
+  const supported = sentences.filter(sentence => sentence.supported).length;
+  return {
+    score: sentences.length > 0 ? roundScore(supported / sentences.length) : 1,
+    sentences
+  };
+};
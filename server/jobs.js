@@ -0,0 +1,88 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+const JOB_TTL = 60 * 60 * 1000; // Finished jobs stay queryable for an hour
+
+// Error with a user-facing explanation, reported as { error, details } on the failed job
+export class JobError extends Error {
+  constructor(message, details) {
+    super(message);
+    this.name = 'JobError';
+    this.details = details;
+  }
+}
+
+// Background jobs for long-running ingestion (upload indexing, instruction extraction).
+// Clients poll GET /jobs/:id or follow progress over server-sent events.
+export const jobStore = {
+  jobs: new Map(),
+  events: new EventEmitter(),
+
+  createJob: function(type) {
+    const now = new Date().toISOString();
+    const job = {
+      id: randomUUID(),
+      type,
+      status: 'running',
+      stage: 'Queued',
+      percent: 0,
+      detail: '',
+      result: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  },
+  getJob: function(jobId) {
+    return this.jobs.get(jobId) || null;
+  },
+  // Progress update: { stage, percent, detail }
+  updateJob: function(jobId, progress) {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'running') return;
+
+    Object.assign(job, progress, { updatedAt: new Date().toISOString() });
+    if (progress.percent !== undefined) {
+      job.percent = Math.max(0, Math.min(100, Math.round(progress.percent)));
+    }
+    this.events.emit(jobId, job);
+  },
+  completeJob: function(jobId, result) {
+    this.finishJob(jobId, { status: 'completed', percent: 100, result });
+  },
+  failJob: function(jobId, error) {
+    this.finishJob(jobId, {
+      status: 'failed',
+      error: { error: error.message, details: error.details || error.message }
+    });
+  },
+  finishJob: function(jobId, fields) {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    Object.assign(job, fields, { updatedAt: new Date().toISOString() });
+    this.events.emit(jobId, job);
+    this.events.removeAllListeners(jobId);
+
+    setTimeout(() => this.jobs.delete(jobId), JOB_TTL).unref();
+  },
+  // Calls listener with the job on every change; returns an unsubscribe function
+  subscribe: function(jobId, listener) {
+    this.events.on(jobId, listener);
+    return () => this.events.off(jobId, listener);
+  },
+  // Runs work(job) in the background, recording its result or error on the job
+  run: function(type, work) {
+    const job = this.createJob(type);
+    Promise.resolve()
+      .then(() => work(job))
+      .then(result => this.completeJob(job.id, result))
+      .catch(error => {
+        console.error(`Job ${job.id} (${type}) failed:`, error);
+        this.failJob(job.id, error);
+      });
+    return job;
+  }
+};
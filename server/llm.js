@@ -0,0 +1,436 @@
+import fs from 'fs';
+import fetch from 'node-fetch';
+
+/**
+ * LLM providers generate answers and structured extractions.
+ *
+ * Every provider exposes the same shape:
+ *   name                 - provider and model, for logs
+ *   configurationError() - why the provider cannot be used (e.g. a missing API key), or null
+ *   generate(prompt): Promise<string>
+ *   stream(prompt, onText): Promise<string>
+ *                        - calls onText with each piece of text as it arrives and
+ *                          resolves with the complete text
+ *   generateJSON(prompt, { schema }): Promise<object>
+ *                        - asks for JSON output (constrained by a JSON schema where the
+ *                          backend supports it) and returns it parsed
+ */
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_LLAMACPP_BASE_URL = 'http://localhost:8080/v1'; // llama.cpp's server speaks the OpenAI API
+const DEFAULT_OLLAMA_MODEL = 'llama3.1';
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+const LLM_MAX_RETRIES = 3;
+const LLM_RETRY_DELAY = 2000;
+
+const delay = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// POST with retries when the backend reports a rate limit
+const postWithRetry = async (url, body, { headers = {}, retryDelay = LLM_RETRY_DELAY } = {}) => {
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (response.status === 429 && attempt < LLM_MAX_RETRIES) {
+      console.log(`Rate limit hit, retrying after ${retryDelay * attempt}ms...`);
+      await delay(retryDelay * attempt);
+      continue;
+    }
+    return response;
+  }
+};
+
+// Calls onLine for every line of a streamed response body
+const readLines = async (body, onLine) => {
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for await (const chunk of body) {
+    buffered += decoder.decode(chunk, { stream: true });
+    const lines = buffered.split(/\r?\n/);
+    buffered = lines.pop();
+    lines.forEach(line => onLine(line.trim()));
+  }
+  if (buffered.trim()) {
+    onLine(buffered.trim());
+  }
+};
+
+// The model's reply could not be parsed as JSON; text holds the reply
+export class InvalidJSONError extends Error {
+  constructor(message, text) {
+    super(message);
+    this.name = 'InvalidJSONError';
+    this.text = text;
+  }
+}
+
+/**
+ * Parses a model's JSON reply, tolerating a surrounding ```json code block
+ */
+export const parseJSONResponse = (text) => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const jsonString = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(jsonString);
+  } catch (error) {
+    console.error('Failed to extract JSON from response:', text);
+    throw new InvalidJSONError('Failed to extract JSON from response', text);
+  }
+};
+
+// Gemini's responseSchema is an OpenAPI subset with upper-case type names
+const toGeminiSchema = (schema) => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === 'type' && typeof value === 'string'
+      ? value.toUpperCase()
+      : key === 'properties'
+        ? Object.fromEntries(Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property)]))
+        : toGeminiSchema(value)
+  ]));
+};
+
+/**
+ * Google Gemini via the generateContent / streamGenerateContent endpoints
+ */
+export class GeminiLLMProvider {
+  constructor({ apiKey, model = DEFAULT_GEMINI_MODEL, retryDelay }) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.retryDelay = retryDelay;
+    this.name = `gemini-${model}`;
+  }
+
+  configurationError() {
+    return this.apiKey
+      ? null
+      : 'Please check your .env file and ensure VITE_GEMINI_API_KEY is set';
+  }
+
+  url(method) {
+    return `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:${method}?key=${this.apiKey}`;
+  }
+
+  requestBody(prompt, generationConfig) {
+    return {
+      contents: [{
+        parts: [{ text: prompt }]
+      }],
+      ...(generationConfig ? { generationConfig } : {})
+    };
+  }
+
+  async generate(prompt, generationConfig) {
+    const response = await postWithRetry(
+      this.url('generateContent'),
+      this.requestBody(prompt, generationConfig),
+      { retryDelay: this.retryDelay }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Gemini API error: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new Error('Invalid or empty response from Gemini API');
+    }
+    return text;
+  }
+
+  async stream(prompt, onText) {
+    const response = await postWithRetry(
+      this.url('streamGenerateContent') + '&alt=sse',
+      this.requestBody(prompt),
+      { retryDelay: this.retryDelay }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Gemini API error: ${response.statusText}`);
+    }
+
+    // One JSON candidate per "data:" line
+    let text = '';
+    await readLines(response.body, line => {
+      if (!line.startsWith('data:')) return;
+      const result = JSON.parse(line.slice(5));
+      const piece = (result.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+      if (piece) {
+        text += piece;
+        onText(piece);
+      }
+    });
+
+    if (!text) {
+      throw new Error('Invalid or empty response from Gemini API');
+    }
+    return text;
+  }
+
+  async generateJSON(prompt, { schema } = {}) {
+    const text = await this.generate(prompt, {
+      responseMimeType: 'application/json',
+      ...(schema ? { responseSchema: toGeminiSchema(schema) } : {})
+    });
+    return parseJSONResponse(text);
+  }
+}
+
+/**
+ * Any endpoint implementing the OpenAI chat completions API: OpenAI itself, Azure
+ * and hosted gateways, vLLM, LM Studio, or a llama.cpp server
+ */
+export class OpenAICompatibleLLMProvider {
+  constructor({ apiKey, model = DEFAULT_OPENAI_MODEL, baseUrl = DEFAULT_OPENAI_BASE_URL, requireApiKey = true, retryDelay }) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.requireApiKey = requireApiKey;
+    this.retryDelay = retryDelay;
+    this.name = `openai-compatible-${model}`;
+  }
+
+  configurationError() {
+    return this.requireApiKey && !this.apiKey
+      ? 'Please check your .env file and ensure LLM_API_KEY is set'
+      : null;
+  }
+
+  async complete(prompt, options = {}) {
+    const response = await postWithRetry(
+      `${this.baseUrl}/chat/completions`,
+      {
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        ...options
+      },
+      {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        retryDelay: this.retryDelay
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`LLM API error (${this.baseUrl}): ${response.statusText}`);
+    }
+    return response;
+  }
+
+  async generate(prompt, options) {
+    const response = await this.complete(prompt, options);
+    const result = await response.json();
+    const text = result.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error('Invalid or empty response from the LLM API');
+    }
+    return text;
+  }
+
+  async stream(prompt, onText) {
+    const response = await this.complete(prompt, { stream: true });
+
+    // Server-sent events, one delta per "data:" line, terminated by "data: [DONE]"
+    let text = '';
+    await readLines(response.body, line => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      const piece = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (piece) {
+        text += piece;
+        onText(piece);
+      }
+    });
+
+    if (!text) {
+      throw new Error('Invalid or empty response from the LLM API');
+    }
+    return text;
+  }
+
+  async generateJSON(prompt, { schema } = {}) {
+    const text = await this.generate(prompt, {
+      response_format: schema
+        ? { type: 'json_schema', json_schema: { name: 'response', schema } }
+        : { type: 'json_object' }
+    });
+    return parseJSONResponse(text);
+  }
+}
+
+/**
+ * A local Ollama server via its native /api/chat endpoint
+ */
+export class OllamaLLMProvider {
+  constructor({ model = DEFAULT_OLLAMA_MODEL, baseUrl = DEFAULT_OLLAMA_BASE_URL, retryDelay }) {
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.retryDelay = retryDelay;
+    this.name = `ollama-${model}`;
+  }
+
+  configurationError() {
+    return null;
+  }
+
+  async chat(prompt, options = {}) {
+    const response = await postWithRetry(`${this.baseUrl}/api/chat`, {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: false,
+      ...options
+    }, { retryDelay: this.retryDelay });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error (${this.baseUrl}): ${response.statusText}`);
+    }
+    return response;
+  }
+
+  async generate(prompt, options) {
+    const response = await this.chat(prompt, options);
+    const result = await response.json();
+    const text = result.message?.content;
+    if (!text) {
+      throw new Error('Invalid or empty response from Ollama');
+    }
+    return text;
+  }
+
+  async stream(prompt, onText) {
+    const response = await this.chat(prompt, { stream: true });
+
+    // Newline-delimited JSON, one message fragment per line
+    let text = '';
+    await readLines(response.body, line => {
+      if (!line) return;
+      const piece = JSON.parse(line).message?.content;
+      if (piece) {
+        text += piece;
+        onText(piece);
+      }
+    });
+
+    if (!text) {
+      throw new Error('Invalid or empty response from Ollama');
+    }
+    return text;
+  }
+
+  async generateJSON(prompt, { schema } = {}) {
+    const text = await this.generate(prompt, { format: schema || 'json' });
+    return parseJSONResponse(text);
+  }
+}
+
+/**
+ * Deterministic provider for tests and offline demos. Replies come from canned (e.g.
+ * recorded) responses matched against the prompt:
+ *   { match, text }            - reply with text
+ *   { match, json }            - reply with the object serialised as JSON
+ *   { match, error, status }   - fail, like an API error (status 429 for a rate limit)
+ *   times                      - optional; use the response this many times, then skip it
+ * match is a substring or RegExp; the first matching response wins, and defaultText is
+ * the reply when none match. Every prompt is kept in calls for assertions.
+ */
+export class MockLLMProvider {
+  constructor({ responses = [], defaultText = 'This is a mock answer.' } = {}) {
+    this.responses = responses.map(response => ({ ...response, used: 0 }));
+    this.defaultText = defaultText;
+    this.calls = [];
+    this.name = 'mock';
+  }
+
+  configurationError() {
+    return null;
+  }
+
+  async respond(prompt) {
+    this.calls.push(prompt);
+
+    const response = this.responses.find(candidate => {
+      if (candidate.times !== undefined && candidate.used >= candidate.times) return false;
+      return candidate.match instanceof RegExp
+        ? candidate.match.test(prompt)
+        : prompt.includes(candidate.match ?? '');
+    });
+    if (!response) return this.defaultText;
+
+    response.used++;
+    if (response.error) {
+      const error = new Error(response.error);
+      error.status = response.status;
+      throw error;
+    }
+    return response.json !== undefined ? JSON.stringify(response.json) : response.text;
+  }
+
+  async generate(prompt) {
+    return this.respond(prompt);
+  }
+
+  async stream(prompt, onText) {
+    const text = await this.respond(prompt);
+    // Word by word, keeping the whitespace so the pieces add up to the text
+    (text.match(/\S+\s*|\s+/g) || []).forEach(piece => onText(piece));
+    return text;
+  }
+
+  async generateJSON(prompt) {
+    return parseJSONResponse(await this.respond(prompt));
+  }
+}
+
+// Reads the mock provider's options from a JSON file: the MockLLMProvider options
+// ({ responses, defaultText }) or just the array of responses
+const readMockOptions = (responsesPath) => {
+  const options = JSON.parse(fs.readFileSync(responsesPath, 'utf8'));
+  if (Array.isArray(options)) return { responses: options };
+  if (options === null || typeof options !== 'object' ||
+    (options.responses !== undefined && !Array.isArray(options.responses))) {
+    throw new Error(
+      `${responsesPath} must hold an array of responses or { "responses": [...], "defaultText": "..." }`
+    );
+  }
+  return options;
+};
+
+/**
+ * Picks the LLM provider from configuration (LLM_PROVIDER=gemini|openai|llamacpp|ollama|mock).
+ * The mock provider reads its responses from a JSON file (LLM_MOCK_RESPONSES) when given.
+ */
+export const createLLMProvider = ({ provider = 'gemini', apiKey, model, baseUrl, responsesPath } = {}) => {
+  switch (provider) {
+    case 'gemini':
+      return new GeminiLLMProvider({ apiKey, model });
+    case 'openai':
+      // Self-hosted endpoints (a custom baseUrl) usually don't need a key
+      return new OpenAICompatibleLLMProvider({ apiKey, model, baseUrl, requireApiKey: !baseUrl });
+    case 'llamacpp':
+      return new OpenAICompatibleLLMProvider({
+        apiKey,
+        model: model || 'local',
+        baseUrl: baseUrl || DEFAULT_LLAMACPP_BASE_URL,
+        requireApiKey: false
+      });
+    case 'ollama':
+      return new OllamaLLMProvider({ model, baseUrl });
+    case 'mock':
+      return new MockLLMProvider(responsesPath ? readMockOptions(responsesPath) : {});
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+};
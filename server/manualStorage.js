@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+
+// File-backed storage for the manual library: one JSON document per manual
+// holding its metadata and chunks (text, page number, embedding), next to the
+// original PDF so it can be processed again without another upload.
+export const createManualStorage = (dataDir) => {
+  const manualsDir = path.join(dataDir, 'manuals');
+
+  const manualPath = (manualId, extension = 'json') => {
+    // Ids are generated by us, but never let one escape the data directory
+    if (!/^[\w-]+$/.test(manualId)) {
+      throw new Error(`Invalid manual id: ${manualId}`);
+    }
+    return path.join(manualsDir, `${manualId}.${extension}`);
+  };
+
+  return {
+    dataDir,
+
+    init: async function() {
+      await fs.promises.mkdir(manualsDir, { recursive: true });
+    },
+
+    // Write to a temp file first so a crash mid-write never leaves a truncated manual behind
+    saveManual: async function(manual) {
+      const target = manualPath(manual.metadata.id);
+      const tempFile = `${target}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempFile, JSON.stringify({
+        metadata: manual.metadata,
+        chunks: manual.chunks
+      }));
+      await fs.promises.rename(tempFile, target);
+    },
+
+    loadManuals: async function() {
+      const files = (await fs.promises.readdir(manualsDir))
+        .filter(file => file.endsWith('.json'));
+
+      const manuals = [];
+      for (const file of files) {
+        try {
+          const content = await fs.promises.readFile(path.join(manualsDir, file), 'utf8');
+          const manual = JSON.parse(content);
+          if (!manual.metadata?.id || !Array.isArray(manual.chunks)) {
+            throw new Error('Missing metadata or chunks');
+          }
+          manuals.push(manual);
+        } catch (error) {
+          console.error(`Skipping unreadable manual file ${file}:`, error.message);
+        }
+      }
+      return manuals;
+    },
+
+    savePdf: async function(manualId, buffer) {
+      await fs.promises.writeFile(manualPath(manualId, 'pdf'), buffer);
+    },
+
+    // The original PDF, or null for manuals stored before PDFs were kept
+    loadPdf: async function(manualId) {
+      try {
+        return await fs.promises.readFile(manualPath(manualId, 'pdf'));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    deleteManual: async function(manualId) {
+      await fs.promises.rm(manualPath(manualId), { force: true });
+      await fs.promises.rm(manualPath(manualId, 'pdf'), { force: true });
+    }
+  };
+};
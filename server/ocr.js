@@ -0,0 +1,182 @@
+import pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js';
+import { PNG } from 'pngjs';
+import { createWorker } from 'tesseract.js';
+
+// OCR fallback for scanned manuals. Scanned pages are stored as one large image per
+// page, so the page image is taken straight from the PDF (no canvas rendering needed)
+// and passed to Tesseract. The image needn't fill the page (scans often sit inside a
+// margin), so where it is drawn is tracked too, to place the recognized lines on the page.
+
+const { OPS, ImageKind, Util } = pdfjsLib;
+
+const IMAGE_OPS = new Set([OPS.paintImageXObject, OPS.paintInlineImageXObject]);
+const MIN_IMAGE_SIZE = 300; // Smaller images are logos or icons, not scanned pages
+
+// Converts pdf.js image data (1, 3 or 4 bytes per pixel) to a PNG buffer
+const toPng = (image) => {
+  const { width, height, data, kind } = image;
+  const png = new PNG({ width, height });
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      let r, g, b;
+
+      if (kind === ImageKind.GRAYSCALE_1BPP) {
+        // Rows are padded to whole bytes; a set bit is white
+        const byte = data[y * ((width + 7) >> 3) + (x >> 3)];
+        r = g = b = byte & (128 >> (x & 7)) ? 255 : 0;
+      } else if (kind === ImageKind.RGB_24BPP) {
+        const source = (y * width + x) * 3;
+        [r, g, b] = [data[source], data[source + 1], data[source + 2]];
+      } else {
+        const source = (y * width + x) * 4;
+        [r, g, b] = [data[source], data[source + 1], data[source + 2]];
+      }
+
+      png.data[target] = r;
+      png.data[target + 1] = g;
+      png.data[target + 2] = b;
+      png.data[target + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+};
+
+const getImageObject = (page, name) => new Promise(resolve => {
+  const objects = name.startsWith('g_') ? page.commonObjs : page.objs;
+  objects.get(name, resolve);
+});
+
+/**
+ * Returns the largest image painted on the page as { png, width, height, transform },
+ * or null, where transform is the matrix it was painted with: PDF images fill the unit
+ * square of their transform, so it maps the image onto the page
+ */
+export const extractPageImage = async (page) => {
+  const operatorList = await page.getOperatorList();
+
+  // The current transformation matrix, saved and restored with the graphics state
+  let transform = [1, 0, 0, 1, 0, 0];
+  const saved = [];
+  let largest = null;
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+
+    if (fn === OPS.save || fn === OPS.paintFormXObjectBegin) {
+      saved.push(transform);
+      if (fn === OPS.paintFormXObjectBegin && args[0]) transform = Util.transform(transform, args[0]);
+    } else if (fn === OPS.restore || fn === OPS.paintFormXObjectEnd) {
+      transform = saved.pop() ?? transform;
+    } else if (fn === OPS.transform) {
+      transform = Util.transform(transform, args);
+    }
+    if (!IMAGE_OPS.has(fn)) continue;
+
+    const image = fn === OPS.paintInlineImageXObject ? args[0] : await getImageObject(page, args[0]);
+    if (!image?.data || image.width < MIN_IMAGE_SIZE || image.height < MIN_IMAGE_SIZE) continue;
+
+    if (!largest || image.width * image.height > largest.image.width * largest.image.height) {
+      largest = { image, transform };
+    }
+  }
+  return largest
+    ? { png: toPng(largest.image), width: largest.image.width, height: largest.image.height, transform: largest.transform }
+    : null;
+};
+
+/**
+ * Places a box of image pixels [x, y, width, height] (measured from the image's
+ * top-left corner) on the page: returns [left, top, width, height] as fractions of the
+ * page view, measured from its top-left corner. image is { width, height, transform }
+ * as returned by extractPageImage; its top row is drawn at y = 1 of the unit square.
+ */
+export const imageBoxToPage = ([x, y, width, height], image, view) => {
+  const corners = [[x, y], [x + width, y + height]].map(([px, py]) =>
+    Util.applyTransform([px / image.width, 1 - py / image.height], image.transform)
+  );
+  const xs = corners.map(([cx]) => cx);
+  const ys = corners.map(([, cy]) => cy);
+  const [viewX0, viewY0, viewX1, viewY1] = view;
+  const pageWidth = viewX1 - viewX0;
+  const pageHeight = viewY1 - viewY0;
+  return [
+    (Math.min(...xs) - viewX0) / pageWidth,
+    (viewY1 - Math.max(...ys)) / pageHeight,
+    (Math.max(...xs) - Math.min(...xs)) / pageWidth,
+    (Math.max(...ys) - Math.min(...ys)) / pageHeight
+  ];
+};
+
+// Tesseract swallows errors while loading language data (its startup promise never
+// settles), and without an errorHandler it rethrows worker errors and takes the
+// process down. Routing errorHandler into the promise covers both.
+const startWorker = (language, langPath) => new Promise((resolve, reject) => {
+  createWorker(language, undefined, {
+    ...(langPath ? { langPath } : {}),
+    errorHandler: error => {
+      console.error('Tesseract error:', error);
+      reject(new Error(`Tesseract failed: ${error}`));
+    }
+  }).then(resolve, reject);
+});
+
+/**
+ * Lazily starts a Tesseract worker the first time a page needs OCR.
+ * Call terminate() once the document is done.
+ */
+export const createOcrEngine = ({ language = 'eng', langPath } = {}) => {
+  let workerPromise = null;
+
+  return {
+    /**
+     * OCRs a page; returns { lines: [{ text, x, y, width, height, box }], confidence, width, height }
+     * or null when the page has no image to read. x, y, width and height are in image pixels,
+     * box is where the line is on the page (see imageBoxToPage).
+     */
+    recognizePage: async function(page) {
+      const image = await extractPageImage(page);
+      if (!image) return null;
+
+      if (!workerPromise) {
+        workerPromise = startWorker(language, langPath);
+      }
+      const worker = await workerPromise;
+      const { data } = await worker.recognize(image.png);
+
+      return {
+        lines: data.lines
+          .map(line => {
+            const { x0, y0, x1, y1 } = line.bbox;
+            return {
+              text: line.text.trim(),
+              height: y1 - y0,
+              width: x1 - x0,
+              x: x0,
+              y: y0,
+              box: imageBoxToPage([x0, y0, x1 - x0, y1 - y0], image, page.view),
+              confidence: line.confidence
+            };
+          })
+          .filter(line => line.text),
+        // Tesseract reports 0-100
+        confidence: data.confidence / 100,
+        width: image.width,
+        height: image.height
+      };
+    },
+
+    terminate: async function() {
+      if (workerPromise) {
+        try {
+          const worker = await workerPromise;
+          await worker.terminate();
+        } catch (error) {
+          // The worker never started, nothing to shut down
+        }
+        workerPromise = null;
+      }
+    }
+  };
+};
@@ -0,0 +1,178 @@
+import { coverage, numbers, splitSentences, termSet } from './analyzer.js';
+
+// Merges the procedures extracted from each chunk into one list for the manual.
+// Chunks overlap and a procedure can run over several of them, so the same step,
+// warning or procedure title often comes back more than once, worded slightly
+// differently ("Turn off the power." / "Turn off power"). Items are compared on their
+// stemmed terms and the earliest occurrence is kept, with the passage of the manual it
+// was found in. A warning, prerequisite or tool is dropped when it repeats any item
+// already in its list. Steps are only dropped when a chunk's leading steps repeat the
+// end of what was merged so far (the overlap with the previous chunk): a procedure can
+// legitimately say "Press SET." several times.
+
+const DUPLICATE_SIMILARITY = 0.8; // Share of terms two items need in common to be one item
+
+const ITEM_FIELDS = ['prerequisites', 'tools', 'warnings'];
+
+// Numbers carry the meaning of many instructions ("25 Nm", "step 3"); items that
+// mention different ones are never merged however similar the wording
+const createEntry = (text) => ({ text, terms: termSet(text), numbers: numbers(text).sort().join(' ') });
+
+/**
+ * Whether two entries say the same thing: the same numbers and a Jaccard similarity
+ * of their term sets of at least DUPLICATE_SIMILARITY
+ */
+const isNearDuplicate = (a, b) => {
+  if (a.numbers !== b.numbers) return false;
+  if (a.terms.size === 0 || b.terms.size === 0) {
+    return a.text.trim().toLowerCase() === b.text.trim().toLowerCase();
+  }
+
+  let shared = 0;
+  a.terms.forEach(term => {
+    if (b.terms.has(term)) shared++;
+  });
+  return shared / (a.terms.size + b.terms.size - shared) >= DUPLICATE_SIMILARITY;
+};
+
+// Pages of a chunk a span of its text [start, end) falls on
+const pagesOfSpan = (chunk, start, end) => {
+  const offsets = chunk.pageOffsets?.length ? chunk.pageOffsets : [{ page: chunk.page, offset: 0 }];
+  const pages = offsets
+    .filter(({ offset }, index) => {
+      const pageEnd = index + 1 < offsets.length ? offsets[index + 1].offset : Infinity;
+      return offset < end && pageEnd > start;
+    })
+    .map(({ page }) => page);
+  return pages.length > 0 ? [...new Set(pages)] : [offsets[0].page];
+};
+
+/**
+ * Where in a chunk an extracted item comes from: the sentence (or pair of adjacent
+ * sentences, for items that paraphrase more than one) sharing the most terms with it.
+ * Returns { pages, quote } with the verbatim text of the span, or the chunk's first
+ * page and a null quote when nothing in the chunk matches.
+ */
+export const locateSource = (text, chunk) => {
+  const terms = termSet(text);
+  const sentences = splitSentences(chunk.text);
+
+  let best = null;
+  sentences.forEach((sentence, index) => {
+    const candidates = [[sentence, sentence]];
+    if (index + 1 < sentences.length) candidates.push([sentence, sentences[index + 1]]);
+
+    candidates.forEach(([first, last]) => {
+      const quote = chunk.text.slice(first.start, last.end);
+      const score = coverage(terms, termSet(quote));
+      // A longer span has to cover more of the item to be preferred
+      const better = !best || score > best.score ||
+        (score === best.score && last.end - first.start < best.end - best.start);
+      if (score > 0 && better) {
+        best = { score, start: first.start, end: last.end, quote };
+      }
+    });
+  });
+
+  if (!best) {
+    return { pages: [chunk.page], quote: null };
+  }
+  return { pages: pagesOfSpan(chunk, best.start, best.end), quote: best.quote };
+};
+
+// How many of a chunk's leading entries repeat the last entries of a list, in order.
+// The chunker carries a chunk's last sentences over to the start of the next one, so
+// the items extracted from them come back at the start of the next chunk's list.
+const overlapLength = (list, entries) => {
+  for (let length = Math.min(list.length, entries.length); length > 0; length--) {
+    const tail = list.slice(list.length - length);
+    if (tail.every((existing, index) => isNearDuplicate(existing, entries[index]))) {
+      return length;
+    }
+  }
+  return 0;
+};
+
+// Lists are built in manual order, so the entry kept is always the earliest, with its source
+const addEntry = (list, entry, chunk) => {
+  list.push({ ...entry, ...locateSource(entry.text, chunk) });
+};
+
+// Append a chunk's steps to a list, dropping the ones repeated from the overlap with
+// the previous chunk
+const appendSteps = (list, texts, chunk) => {
+  const entries = texts.map(createEntry);
+  entries.slice(overlapLength(list, entries)).forEach(entry => addEntry(list, entry, chunk));
+};
+
+// Append a chunk's warnings, prerequisites or tools to a list, dropping the ones it
+// already has: a general warning is often repeated throughout a manual
+const appendUniqueItems = (list, texts, chunk) => {
+  texts.map(createEntry).forEach(entry => {
+    if (!list.some(existing => isNearDuplicate(existing, entry))) addEntry(list, entry, chunk);
+  });
+};
+
+const toItems = (list) => list.map(({ text, pages, quote }) => ({ text, pages, quote }));
+
+/**
+ * Merges the extractions of each chunk ({ chunkIndex, value, chunk }) into one list of
+ * procedures in the order they appear in the manual. Parts of a procedure found in
+ * several chunks of a section are joined, their steps kept in source order. Steps
+ * repeated from the overlap between consecutive chunks are dropped, as are warnings,
+ * prerequisites and tools repeating one already in their list.
+ * Returns { procedures, warnings } where every list item is { text, pages, quote }:
+ * the pages it was found on and the passage of the manual it was extracted from.
+ */
+export const mergeProcedures = (chunkResults) => {
+  const procedures = [];
+  const warnings = [];
+
+  [...chunkResults]
+    .sort((a, b) => a.chunkIndex - b.chunkIndex)
+    .forEach(({ value, chunk }) => {
+      appendUniqueItems(warnings, value.warnings, chunk);
+
+      value.procedures.forEach(procedure => {
+        const title = createEntry(procedure.title);
+        let merged = procedures.find(existing =>
+          existing.section === chunk.sectionPath && isNearDuplicate(existing.title, title)
+        );
+        if (!merged) {
+          merged = {
+            title,
+            section: chunk.sectionPath,
+            pageStart: chunk.pages[0],
+            pageEnd: chunk.pages[chunk.pages.length - 1],
+            prerequisites: [],
+            tools: [],
+            warnings: [],
+            steps: []
+          };
+          procedures.push(merged);
+        }
+
+        merged.pageStart = Math.min(merged.pageStart, chunk.pages[0]);
+        merged.pageEnd = Math.max(merged.pageEnd, chunk.pages[chunk.pages.length - 1]);
+        ITEM_FIELDS.forEach(field => appendUniqueItems(merged[field], procedure[field], chunk));
+        // Steps repeated from the overlap with the previous chunk are dropped and the
+        // new ones follow them, so the procedure reads in the manual's order
+        appendSteps(merged.steps, procedure.steps, chunk);
+      });
+    });
+
+  return {
+    procedures: procedures.map((procedure, index) => ({
+      id: `procedure-${index + 1}`,
+      title: procedure.title.text,
+      section: procedure.section,
+      pageStart: procedure.pageStart,
+      pageEnd: procedure.pageEnd,
+      prerequisites: toItems(procedure.prerequisites),
+      tools: toItems(procedure.tools),
+      warnings: toItems(procedure.warnings),
+      steps: toItems(procedure.steps)
+    })),
+    warnings: toItems(warnings)
+  };
+};
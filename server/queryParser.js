@@ -0,0 +1,141 @@
+import { analyzeWithSurface } from './analyzer.js';
+
+// Query syntax for manual search:
+//   torque wrench       plain terms, any of them may match
+//   "filter housing"    quoted phrase, words must appear next to each other; with other
+//                       plain terms or phrases, any of them may match, and a phrase only
+//                       counts where its words are adjacent (a +term makes them optional)
+//   +torque             required term (or +"phrase")
+//   -optional           excluded term (or -"phrase")
+// Anything else (punctuation, brackets, slashes) is treated as a separator, never as a pattern.
+// Words go through the same analyzer as indexed text, so stop words are dropped and terms stemmed.
+
+const MAX_QUERY_LENGTH = 1000;
+
+export class QueryParseError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
+
+/**
+ * Parses a search query into clauses: { tokens: string[], surfaces: string[], occur: 'should' | 'must' | 'mustNot' }.
+ * tokens are analyzed terms, surfaces the words as typed (used for fuzzy matching).
+ * A clause with several tokens is a phrase; words like "12-3" or "P/N" become implicit phrases.
+ * With requireTerms: false only the syntax is checked and a query without searchable words is accepted.
+ */
+const toClause = (tokens, occur) => ({
+  tokens: tokens.map(token => token.term),
+  surfaces: tokens.map(token => token.surface),
+  occur
+});
+
+export const parseQuery = (input, { requireTerms = true } = {}) => {
+  if (typeof input !== 'string') {
+    throw new QueryParseError('Query must be a string');
+  }
+  if (input.length > MAX_QUERY_LENGTH) {
+    throw new QueryParseError(`Query is too long (maximum ${MAX_QUERY_LENGTH} characters)`);
+  }
+
+  const clauses = [];
+  let position = 0;
+
+  while (position < input.length) {
+    // Skip whitespace between clauses
+    if (/\s/.test(input[position])) {
+      position++;
+      continue;
+    }
+
+    let occur = 'should';
+    const operator = input[position];
+    if (operator === '+' || operator === '-') {
+      const next = input[position + 1];
+      if (next === undefined || /\s/.test(next)) {
+        // A "+" or "-" on its own (e.g. "C ++ driver" or "a - b") carries no meaning; skip it
+        position++;
+        continue;
+      }
+      occur = operator === '+' ? 'must' : 'mustNot';
+      position++;
+    }
+
+    if (input[position] === '"') {
+      const closing = input.indexOf('"', position + 1);
+      if (closing === -1) {
+        throw new QueryParseError(`Unterminated quote at position ${position + 1}`);
+      }
+      const tokens = analyzeWithSurface(input.slice(position + 1, closing));
+      if (tokens.length === 0) {
+        throw new QueryParseError('Quoted phrase must contain at least one searchable word');
+      }
+      clauses.push(toClause(tokens, occur));
+      position = closing + 1;
+      continue;
+    }
+
+    // Plain word: runs until whitespace or the start of a quote
+    let end = position;
+    while (end < input.length && !/\s/.test(input[end]) && input[end] !== '"') {
+      end++;
+    }
+    const tokens = analyzeWithSurface(input.slice(position, end));
+    if (tokens.length > 0) {
+      clauses.push(toClause(tokens, occur));
+    }
+    position = end;
+  }
+
+  const positive = clauses.filter(clause => clause.occur !== 'mustNot');
+  if (positive.length === 0 && requireTerms) {
+    throw new QueryParseError(
+      clauses.length === 0
+        ? 'Query contains no searchable words'
+        : 'Query must contain at least one term that is not excluded'
+    );
+  }
+
+  return {
+    clauses,
+    // Tokens that contribute to ranking
+    terms: positive.flatMap(clause => clause.tokens),
+    // Plain text of the positive clauses, used for the embedding
+    text: positive.map(clause => clause.surfaces.join(' ')).join(' ')
+  };
+};
+
+const containsSequence = (tokens, sequence) => {
+  for (let i = 0; i <= tokens.length - sequence.length; i++) {
+    if (sequence.every((token, offset) => tokens[i + offset] === token)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Optional clauses only filter when one is a phrase and nothing is required: the chunk
+// then needs one of them, with a phrase's words next to each other
+const optionalClausesFilter = (parsedQuery) =>
+  parsedQuery.clauses.some(clause => clause.occur === 'should' && clause.tokens.length > 1) &&
+  !parsedQuery.clauses.some(clause => clause.occur === 'must');
+
+/**
+ * Checks required and excluded clauses, and optional phrases, against a chunk's tokens
+ */
+export const matchesFilters = (parsedQuery, chunkTokens) => {
+  const clausesMatch = parsedQuery.clauses.every(clause => {
+    if (clause.occur === 'should') return true;
+    const found = containsSequence(chunkTokens, clause.tokens);
+    return clause.occur === 'must' ? found : !found;
+  });
+  if (!clausesMatch || !optionalClausesFilter(parsedQuery)) return clausesMatch;
+
+  return parsedQuery.clauses.some(clause =>
+    clause.occur === 'should' && containsSequence(chunkTokens, clause.tokens)
+  );
+};
+
+export const hasFilters = (parsedQuery) =>
+  parsedQuery.clauses.some(clause => clause.occur !== 'should') || optionalClausesFilter(parsedQuery);
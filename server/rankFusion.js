@@ -0,0 +1,63 @@
+// Reciprocal rank fusion: combines several rankings of the same items using only
+// their ranks, so scores on different scales (BM25, cosine similarity) can be mixed.
+
+const RRF_K = 60;
+
+export const DEFAULT_FUSION_WEIGHTS = {
+  lexical: 1,
+  vector: 1
+};
+
+/**
+ * @param rankings - { [name]: item keys ordered best first }
+ * @param weights - { [name]: weight }; rankings without a weight count as 0
+ * @returns Map(key -> fused score)
+ */
+export const reciprocalRankFusion = (rankings, weights, k = RRF_K) => {
+  const fused = new Map();
+
+  Object.entries(rankings).forEach(([name, keys]) => {
+    const weight = weights[name] ?? 0;
+    if (weight === 0) return;
+
+    keys.forEach((key, rank) => {
+      fused.set(key, (fused.get(key) || 0) + weight / (k + rank + 1));
+    });
+  });
+
+  return fused;
+};
+
+/**
+ * The highest fused score an item can get with these weights: ranked first by every ranking
+ */
+export const maxFusedScore = (weights, k = RRF_K) =>
+  Object.values(weights).reduce((sum, weight) => sum + weight / (k + 1), 0);
+
+/**
+ * Validates per-request fusion weights, falling back to the defaults for missing entries
+ */
+export const parseFusionWeights = (weights) => {
+  if (weights === undefined) {
+    return { weights: { ...DEFAULT_FUSION_WEIGHTS } };
+  }
+  if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) {
+    return { error: 'weights must be an object like { "lexical": 1, "vector": 1 }' };
+  }
+
+  const parsed = { ...DEFAULT_FUSION_WEIGHTS };
+  for (const [name, value] of Object.entries(weights)) {
+    if (!(name in DEFAULT_FUSION_WEIGHTS)) {
+      return { error: `Unknown weight "${name}"; expected lexical or vector` };
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return { error: `Weight "${name}" must be a non-negative number` };
+    }
+    parsed[name] = value;
+  }
+
+  if (parsed.lexical === 0 && parsed.vector === 0) {
+    return { error: 'At least one weight must be greater than 0' };
+  }
+  return { weights: parsed };
+};
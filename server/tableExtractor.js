@@ -0,0 +1,142 @@
+// Table detection from pdf.js text items. Spec tables (torque values, fuse ratings,
+// error codes) come out of getTextContent() as loose items; their coordinates are
+// used to rebuild rows (shared baseline) and columns (overlapping x ranges).
+
+const MIN_TABLE_ROWS = 3; // Header plus at least two data rows
+const MIN_TABLE_COLUMNS = 2;
+const MAX_AVERAGE_CELL_LENGTH = 40; // Longer "cells" are prose in a multi-column layout
+const CELL_GAP_RATIO = 1.0; // Horizontal gap, in font sizes, that separates two cells
+const ROW_GAP_RATIO = 2.5; // Vertical gap, in font sizes, that ends a table
+
+/**
+ * The font size of a pdf.js text item, from its transform (or its height, when the
+ * transform has no scale); 0 when it has neither
+ */
+export const fontSizeOf = (item) => Math.hypot(item.transform[2], item.transform[3]) || item.height || 0;
+
+// Groups items sharing a baseline into rows of segments: { text, x0, x1, itemIndexes }
+const buildRows = (items) => {
+  const rows = [];
+
+  items.forEach((item, itemIndex) => {
+    if (!item.str || !item.str.trim()) return;
+    // Gaps are measured in font sizes, which can't be 0
+    const fontSize = fontSizeOf(item) || 1;
+    const y = item.transform[5];
+    const x0 = item.transform[4];
+
+    let row = rows.find(candidate => Math.abs(candidate.y - y) <= Math.max(candidate.fontSize, fontSize) * 0.5);
+    if (!row) {
+      row = { y, fontSize, items: [] };
+      rows.push(row);
+    }
+    row.fontSize = Math.max(row.fontSize, fontSize);
+    row.items.push({ text: item.str, x0, x1: x0 + (item.width || 0), itemIndex });
+  });
+
+  rows.forEach(row => {
+    row.items.sort((a, b) => a.x0 - b.x0);
+    row.segments = [];
+    row.items.forEach(item => {
+      const last = row.segments[row.segments.length - 1];
+      if (last && item.x0 - last.x1 < row.fontSize * CELL_GAP_RATIO) {
+        last.text += (last.text.endsWith(' ') || item.text.startsWith(' ') ? '' : ' ') + item.text;
+        last.x1 = Math.max(last.x1, item.x1);
+        last.itemIndexes.push(item.itemIndex);
+      } else {
+        row.segments.push({ text: item.text, x0: item.x0, x1: item.x1, itemIndexes: [item.itemIndex] });
+      }
+    });
+    row.segments.forEach(segment => {
+      segment.text = segment.text.replace(/\s+/g, ' ').trim();
+    });
+  });
+
+  // Top of the page first
+  return rows.sort((a, b) => b.y - a.y);
+};
+
+// Columns are the union of overlapping segment x ranges across all rows of a block
+const buildColumns = (rows) => {
+  const ranges = rows
+    .flatMap(row => row.segments.map(segment => [segment.x0, segment.x1]))
+    .sort((a, b) => a[0] - b[0]);
+
+  const columns = [];
+  ranges.forEach(([x0, x1]) => {
+    const last = columns[columns.length - 1];
+    if (last && x0 <= last[1]) {
+      last[1] = Math.max(last[1], x1);
+    } else {
+      columns.push([x0, x1]);
+    }
+  });
+  return columns;
+};
+
+const toTable = (rows) => {
+  const columns = buildColumns(rows);
+  if (columns.length < MIN_TABLE_COLUMNS) return null;
+
+  const cells = rows.map(row => {
+    const rowCells = columns.map(() => []);
+    row.segments.forEach(segment => {
+      const column = columns.findIndex(([x0, x1]) => segment.x0 >= x0 && segment.x0 <= x1);
+      rowCells[column].push(segment.text);
+    });
+    return rowCells.map(parts => parts.join(' '));
+  });
+
+  const filled = cells.flat().filter(Boolean);
+  const averageLength = filled.reduce((sum, cell) => sum + cell.length, 0) / filled.length;
+  if (averageLength > MAX_AVERAGE_CELL_LENGTH) return null;
+
+  return {
+    headers: cells[0],
+    rows: cells.slice(1),
+    itemIndexes: rows.flatMap(row => row.segments.flatMap(segment => segment.itemIndexes))
+  };
+};
+
+/**
+ * Detects tables among a page's text items.
+ * Returns [{ headers: string[], rows: string[][], itemIndexes: number[] }] in page order;
+ * itemIndexes are the positions of the items the table was built from.
+ */
+export const detectTables = (items) => {
+  const rows = buildRows(items);
+  const tables = [];
+  let block = [];
+
+  const closeBlock = () => {
+    if (block.length >= MIN_TABLE_ROWS) {
+      const table = toTable(block);
+      if (table) tables.push(table);
+    }
+    block = [];
+  };
+
+  rows.forEach(row => {
+    const previous = block[block.length - 1];
+    const isTableRow = row.segments.length >= MIN_TABLE_COLUMNS;
+    const adjacent = previous && previous.y - row.y <= Math.max(previous.fontSize, row.fontSize) * ROW_GAP_RATIO;
+
+    if (!isTableRow || (previous && !adjacent)) {
+      closeBlock();
+    }
+    if (isTableRow) {
+      block.push(row);
+    }
+  });
+  closeBlock();
+
+  return tables;
+};
+
+/**
+ * Plain-text rendering of a table, used for indexing and in prompts
+ */
+export const tableToText = (table) =>
+  [table.headers, table.headers.map(() => '---'), ...table.rows]
+    .map(cells => `| ${cells.join(' | ')} |`)
+    .join('\n');
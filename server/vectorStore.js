@@ -0,0 +1,210 @@
+import { randomUUID } from 'crypto';
+import similarity from 'compute-cosine-similarity';
+import { BM25Index, scoreBM25 } from './bm25.js';
+import { analyze, editDistance, maxEditsFor } from './analyzer.js';
+import { hasFilters, matchesFilters } from './queryParser.js';
+import { DEFAULT_FUSION_WEIGHTS, reciprocalRankFusion } from './rankFusion.js';
+
+// Find the indexed word closest to a query word that is not in the vocabulary
+const findClosestWord = (surface, indexes) => {
+  const maxEdits = maxEditsFor(surface);
+  if (maxEdits === 0) return null;
+
+  let best = null;
+  indexes.forEach(index => {
+    index.surfaceForms.forEach((term, candidate) => {
+      const distance = editDistance(surface, candidate, maxEdits);
+      if (distance > maxEdits) return;
+
+      const frequency = index.documentFrequency(term);
+      // Prefer the smallest edit, then the more common word
+      if (!best || distance < best.distance || (distance === best.distance && frequency > best.frequency)) {
+        best = { surface: candidate, term, distance, frequency };
+      }
+    });
+  });
+  return best;
+};
+
+// Manual library: every uploaded manual gets its own id and chunk list
+export const vectorStore = {
+  manuals: new Map(),
+
+  // Start a new manual outside the library: fill it with addChunk, then register it
+  // with addManual once it is fully indexed, so searches never see it half-built
+  createManual: function(fileName, pageCount, embeddingProvider) {
+    const id = randomUUID();
+    return {
+      chunks: [],
+      lexicalIndex: new BM25Index(),
+      metadata: {
+        id,
+        fileName,
+        pageCount,
+        totalChunks: 0,
+        ocrPages: [],
+        embeddingProvider,
+        uploadedAt: new Date().toISOString()
+      }
+    };
+  },
+  addManual: function(manual) {
+    this.manuals.set(manual.metadata.id, manual);
+  },
+  // Register a manual restored from storage
+  loadManual: function(manual) {
+    // The lexical index is derived from chunk text, so it is rebuilt rather than stored
+    const lexicalIndex = new BM25Index();
+    manual.chunks.forEach(chunk => lexicalIndex.add(chunk.text));
+
+    this.manuals.set(manual.metadata.id, {
+      chunks: manual.chunks,
+      lexicalIndex,
+      metadata: { ocrPages: [], ...manual.metadata, totalChunks: manual.chunks.length }
+    });
+  },
+  getManual: function(manualId) {
+    return this.manuals.get(manualId) || null;
+  },
+  hasManual: function(manualId) {
+    return this.manuals.has(manualId);
+  },
+  listManuals: function() {
+    return [...this.manuals.values()].map(manual => manual.metadata);
+  },
+  // Add a chunk to a manual made by createManual
+  addChunk: function(manual, chunk, embedding) {
+    manual.chunks.push({
+      text: chunk.text,
+      page: chunk.page,
+      pages: chunk.pages || [chunk.page],
+      sectionPath: chunk.sectionPath || '',
+      ocr: Boolean(chunk.ocr),
+      table: chunk.table || null,
+      highlights: chunk.highlights || [],
+      // Characters repeated from the previous chunk, so neighbouring chunks can be joined
+      overlapLength: chunk.overlapLength || 0,
+      embedding: embedding
+    });
+    manual.lexicalIndex.add(chunk.text);
+    manual.metadata.totalChunks = manual.chunks.length;
+  },
+  removeManual: function(manualId) {
+    const removed = this.manuals.delete(manualId);
+    if (removed) {
+      console.log(`Manual ${manualId} removed from vector store`);
+    }
+    return removed;
+  },
+  // Resolve the manuals a search should look at; no ids means the whole library
+  resolveManuals: function(manualIds) {
+    if (!manualIds || manualIds.length === 0) {
+      return [...this.manuals.values()];
+    }
+    return manualIds
+      .map(id => this.manuals.get(id))
+      .filter(Boolean);
+  },
+  totalChunks: function(manualIds) {
+    return this.resolveManuals(manualIds)
+      .reduce((sum, manual) => sum + manual.chunks.length, 0);
+  },
+  /**
+   * Replaces query words that appear in none of the searched manuals with the closest
+   * indexed word (e.g. "calibraton" -> "calibration"). Returns the corrected query
+   * with the list of corrections made.
+   */
+  applyFuzzyMatching: function(parsedQuery, { manualIds } = {}) {
+    const indexes = this.resolveManuals(manualIds).map(manual => manual.lexicalIndex);
+    const corrections = [];
+
+    const clauses = parsedQuery.clauses.map(clause => {
+      const tokens = [...clause.tokens];
+      const surfaces = [...clause.surfaces];
+
+      clause.tokens.forEach((term, i) => {
+        if (indexes.some(index => index.hasTerm(term))) return;
+
+        const match = findClosestWord(clause.surfaces[i], indexes);
+        if (match) {
+          corrections.push({ from: clause.surfaces[i], to: match.surface });
+          tokens[i] = match.term;
+          surfaces[i] = match.surface;
+        }
+      });
+
+      return { ...clause, tokens, surfaces };
+    });
+
+    const positive = clauses.filter(clause => clause.occur !== 'mustNot');
+    return {
+      clauses,
+      terms: positive.flatMap(clause => clause.tokens),
+      text: positive.map(clause => clause.surfaces.join(' ')).join(' '),
+      corrections
+    };
+  },
+  /**
+   * Hybrid search: BM25 over chunk text and cosine similarity over embeddings,
+   * merged with reciprocal rank fusion. Weights control how much each ranking counts.
+   * Takes a query parsed by parseQuery; required/excluded clauses and quoted phrases
+   * (see matchesFilters) filter both rankings.
+   */
+  search: function(parsedQuery, {
+    queryEmbedding,
+    manualIds,
+    topK = 5,
+    minScore = 0,
+    weights = DEFAULT_FUSION_WEIGHTS
+  } = {}) {
+    const manuals = this.resolveManuals(manualIds);
+    const lexicalScores = scoreBM25(manuals.map(manual => manual.lexicalIndex), parsedQuery.terms);
+    const filtered = hasFilters(parsedQuery);
+
+    const candidates = new Map();
+    manuals.forEach((manual, manualIndex) => {
+      manual.chunks.forEach((chunk, chunkIndex) => {
+        const lexicalScore = lexicalScores[manualIndex].get(chunkIndex) || 0;
+        // Vectors of a different length come from another provider and can't be compared
+        // (the similarity function throws on them), so the chunk only ranks lexically
+        const comparable = queryEmbedding && chunk.embedding?.length === queryEmbedding.length;
+        // Empty or all-zero vectors have no direction and give null or NaN
+        const vectorScore = comparable ? similarity(queryEmbedding, chunk.embedding) || 0 : 0;
+
+        if (filtered && !matchesFilters(parsedQuery, analyze(chunk.text))) {
+          return;
+        }
+
+        if (lexicalScore > 0 || vectorScore > minScore) {
+          candidates.set(`${manual.metadata.id}:${chunkIndex}`, {
+            text: chunk.text,
+            page: chunk.page,
+            sectionPath: chunk.sectionPath || '',
+            table: chunk.table || null,
+            highlights: chunk.highlights || [],
+            manualId: manual.metadata.id,
+            fileName: manual.metadata.fileName,
+            chunkIndex,
+            lexicalScore,
+            vectorScore
+          });
+        }
+      });
+    });
+
+    const rankBy = (field, threshold) => [...candidates.entries()]
+      .filter(([, item]) => item[field] > threshold)
+      .sort(([, a], [, b]) => b[field] - a[field])
+      .map(([key]) => key);
+
+    const fused = reciprocalRankFusion({
+      lexical: rankBy('lexicalScore', 0),
+      vector: rankBy('vectorScore', minScore)
+    }, weights);
+
+    return [...fused.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, topK)
+      .map(([key, score]) => ({ ...candidates.get(key), score }));
+  }
+};
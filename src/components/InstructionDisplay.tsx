@@ -7,26 +7,96 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Clipboard, Check } from "lucide-react";
+import { Clipboard, Check, ExternalLink } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 
+/**
+ * Where in the manual an item was taken from: its pages and the quoted passage
+ */
+interface SourceReference {
+  pages: number[];
+  quote: string | null;
+}
+
 interface Instruction {
   step: number;
   content: string;
+  source?: SourceReference;
+}
+
+interface ListItem {
+  text: string;
+  source?: SourceReference;
 }
 
 interface InstructionDisplayProps {
   title: string;
+  // Where the instructions come from, e.g. the section and pages of a procedure
+  subtitle?: string;
   instructions: Instruction[];
-  prerequisites?: string[];
-  warnings?: string[];
+  prerequisites?: ListItem[];
+  tools?: ListItem[];
+  warnings?: ListItem[];
+  // Opens the original manual at a page; without it page references only show the quote
+  onOpenPage?: (page: number) => void;
 }
 
+const formatPages = (pages: number[]) =>
+  pages.length === 1 ? `p. ${pages[0]}` : `pp. ${pages.join(", ")}`;
+
+// A page reference that reveals the quoted passage so the item can be checked against the manual
+const SourceLink = ({
+  source,
+  onOpenPage,
+}: {
+  source: SourceReference;
+  onOpenPage?: (page: number) => void;
+}) => {
+  const [open, setOpen] = React.useState(false);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="ml-2 text-xs text-primary underline-offset-2 hover:underline"
+        aria-expanded={open}
+      >
+        {formatPages(source.pages)}
+      </button>
+      {open && (
+        <span className="mt-1 block rounded border-l-2 border-primary/40 bg-gray-50 px-2 py-1 text-sm text-gray-600">
+          {source.quote ? (
+            <q className="italic">{source.quote}</q>
+          ) : (
+            <span className="text-gray-400">
+              No matching passage was found on this page.
+            </span>
+          )}
+          {onOpenPage && (
+            <button
+              type="button"
+              onClick={() => onOpenPage(source.pages[0])}
+              className="ml-2 inline-flex items-center gap-1 text-xs text-primary hover:underline"
+            >
+              <ExternalLink className="h-3 w-3" />
+              Open page {source.pages[0]}
+            </button>
+          )}
+        </span>
+      )}
+    </>
+  );
+};
+
 const InstructionDisplay = ({
   title,
+  subtitle,
   instructions,
   prerequisites = [],
+  tools = [],
   warnings = [],
+  onOpenPage,
 }: InstructionDisplayProps) => {
   const [copied, setCopied] = React.useState(false);
 
@@ -34,7 +104,11 @@ const InstructionDisplay = ({
     if (instructions.length === 0) return;
 
     const formattedInstructions = instructions
-      .map((instruction) => `${instruction.step}. ${instruction.content}`)
+      .map((instruction) =>
+        instruction.source
+          ? `${instruction.step}. ${instruction.content} (${formatPages(instruction.source.pages)})`
+          : `${instruction.step}. ${instruction.content}`
+      )
       .join("\n\n");
 
     navigator.clipboard.writeText(formattedInstructions);
@@ -45,13 +119,31 @@ const InstructionDisplay = ({
     }, 2000);
   };
 
+  const renderList = (items: ListItem[], className: string) => (
+    <ul className="list-disc list-inside space-y-1">
+      {items.map((item, index) => (
+        <li key={index} className={className}>
+          {item.text}
+          {item.source && (
+            <SourceLink source={item.source} onOpenPage={onOpenPage} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
   return (
     <Card className="w-full max-w-3xl mx-auto bg-white shadow-md">
       <CardHeader className="border-b">
         <div className="flex justify-between items-center">
-          <CardTitle className="text-xl font-semibold text-gray-800">
-            {title}
-          </CardTitle>
+          <div>
+            <CardTitle className="text-xl font-semibold text-gray-800">
+              {title}
+            </CardTitle>
+            {subtitle && (
+              <p className="text-sm text-gray-500 mt-1">{subtitle}</p>
+            )}
+          </div>
           {instructions.length > 0 && (
             <Badge variant="secondary" className="text-xs">
               {instructions.length} steps
@@ -73,22 +165,21 @@ const InstructionDisplay = ({
             {prerequisites.length > 0 && (
               <div className="space-y-2">
                 <h3 className="font-medium text-gray-700">Prerequisites:</h3>
-                <ul className="list-disc list-inside space-y-1">
-                  {prerequisites.map((item, index) => (
-                    <li key={index} className="text-gray-600">{item}</li>
-                  ))}
-                </ul>
+                {renderList(prerequisites, "text-gray-600")}
+              </div>
+            )}
+
+            {tools.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-gray-700">Tools and parts:</h3>
+                {renderList(tools, "text-gray-600")}
               </div>
             )}
 
             {warnings.length > 0 && (
               <div className="space-y-2">
                 <h3 className="font-medium text-red-600">Important Warnings:</h3>
-                <ul className="list-disc list-inside space-y-1">
-                  {warnings.map((warning, index) => (
-                    <li key={index} className="text-red-500">{warning}</li>
-                  ))}
-                </ul>
+                {renderList(warnings, "text-red-500")}
               </div>
             )}
 
@@ -98,7 +189,15 @@ const InstructionDisplay = ({
                   <div className="h-6 w-6 rounded-full bg-primary/10 text-primary flex items-center justify-center flex-shrink-0 font-medium text-sm">
                     {instruction.step}
                   </div>
-                  <p className="text-gray-700">{instruction.content}</p>
+                  <p className="text-gray-700">
+                    {instruction.content}
+                    {instruction.source && (
+                      <SourceLink
+                        source={instruction.source}
+                        onOpenPage={onOpenPage}
+                      />
+                    )}
+                  </p>
                 </div>
               ))}
             </div>
@@ -0,0 +1,88 @@
+import React from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ManualMetadata } from "@/services/geminiService";
+
+interface ManualLibraryProps {
+  manuals: ManualMetadata[];
+  selectedIds: string[];
+  onSelectionChange: (selectedIds: string[]) => void;
+  onRemove?: (manualId: string) => void;
+}
+
+const ManualLibrary = ({
+  manuals,
+  selectedIds,
+  onSelectionChange,
+  onRemove,
+}: ManualLibraryProps) => {
+  const allSelected =
+    manuals.length > 0 && manuals.every((m) => selectedIds.includes(m.id));
+
+  const toggleManual = (manualId: string, checked: boolean) => {
+    onSelectionChange(
+      checked
+        ? [...selectedIds, manualId]
+        : selectedIds.filter((id) => id !== manualId),
+    );
+  };
+
+  const toggleAll = (checked: boolean) => {
+    onSelectionChange(checked ? manuals.map((m) => m.id) : []);
+  };
+
+  if (manuals.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Manual Library</h3>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Checkbox
+            checked={allSelected}
+            onCheckedChange={(checked) => toggleAll(checked === true)}
+          />
+          Search all manuals
+        </label>
+      </div>
+      <ul className="divide-y rounded-md border">
+        {manuals.map((manual) => (
+          <li
+            key={manual.id}
+            className="flex items-center justify-between gap-2 px-3 py-2"
+          >
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selectedIds.includes(manual.id)}
+                onCheckedChange={(checked) =>
+                  toggleManual(manual.id, checked === true)
+                }
+              />
+              <span className="font-medium">{manual.fileName}</span>
+              <span className="text-muted-foreground">
+                {manual.pageCount} pages
+                {manual.ocrPages?.length > 0 &&
+                  ` (${manual.ocrPages.length} scanned, read with OCR)`}
+              </span>
+            </label>
+            {onRemove && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRemove(manual.id)}
+                aria-label={`Remove ${manual.fileName}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ManualLibrary;
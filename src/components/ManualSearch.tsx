@@ -1,239 +1,416 @@
 import React, { useState } from 'react';
+import { AlertTriangle, MessageSquarePlus, SearchX } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { SearchResponse, manualService } from '@/services/geminiService';
+import {
+  AnswerCitation,
+  ConfidenceFactor,
+  RelevantSection,
+  SearchResponse,
+  manualService,
+} from '@/services/geminiService';
+import ManualTableView from './ManualTableView';
+import MarkdownContent from './MarkdownContent';
+import PdfViewer from './PdfViewer';
 
 interface ManualSearchProps {
   isEnabled: boolean;
+  manualIds?: string[];
 }
 
-interface RelevantSection {
-  text: string;
-  page: number;
-  confidence: number;
+interface ChatTurn {
+  question: string;
+  result: SearchResponse | null;
+  error?: string;
 }
 
-interface SearchMetadata {
-  totalPages: number;
-  pagesSearched: number[];
+// The passage shown in the PDF viewer
+interface Citation {
+  manualId: string;
   fileName: string;
+  page: number;
+  section?: RelevantSection;
 }
 
-interface SearchResult {
-  answer: string;
-  relevantSections: RelevantSection[];
-  metadata?: SearchMetadata;
-}
+const percent = (value: number) => `${Math.round(value * 100)}%`;
 
-// Add new types for better formatting
-interface FormattedText {
-  type: 'text' | 'bold' | 'bullet' | 'subbullet' | 'heading';
-  content: string;
-  level?: number;
-}
+const confidenceLevel = (confidence: number) => {
+  if (confidence >= 0.75) return { label: 'High', className: 'bg-green-100 text-green-800' };
+  if (confidence >= 0.5) return { label: 'Medium', className: 'bg-amber-100 text-amber-800' };
+  return { label: 'Low', className: 'bg-red-100 text-red-800' };
+};
 
-// Improved helper function to parse formatted text
-const parseFormattedText = (text: string): FormattedText[] => {
-  const parts: FormattedText[] = [];
-  let currentText = '';
-  let isBold = false;
-
-  const lines = text.split('\n');
-  
-  lines.forEach(line => {
-    let trimmedLine = line.trim();
-    
-    // Skip empty lines
-    if (!trimmedLine) {
-      parts.push({ type: 'text', content: '\n' });
-      return;
+// What a factor of the confidence says about this answer
+const describeFactor = (factor: ConfidenceFactor, result: SearchResponse) => {
+  switch (factor.name) {
+    case 'match':
+      return result.found === false && result.evidence
+        ? `The closest section covers only ${percent(factor.score)} of the question's terms (${percent(result.evidence.threshold)} needed to answer)`
+        : `The best section covers ${percent(factor.score)} of the question's terms`;
+    case 'similarity':
+      return factor.score < 1
+        ? `The closest section in meaning reaches ${percent(factor.score)} of the similarity needed to answer from it`
+        : 'A section is close enough in meaning to answer from';
+    case 'ranking':
+      return factor.score < 1
+        ? 'Keyword and meaning search ranked different sections first'
+        : 'Keyword and meaning search agree on the best section';
+    case 'grounding': {
+      const sentences = result.grounding?.sentences || [];
+      return `${sentences.filter((sentence) => sentence.supported).length} of ${sentences.length} statements are backed by a section`;
     }
-
-    // Handle bullet points with different levels
-    let bulletLevel = 0;
-    while (trimmedLine.startsWith('* ') || trimmedLine.startsWith('• ')) {
-      bulletLevel++;
-      trimmedLine = trimmedLine.substring(2).trim();
+    case 'citations': {
+      const citations = result.citations || [];
+      return `${citations.filter((citation) => citation.supported).length} of ${citations.length} cited pages were among the sections found`;
     }
+  }
+};
 
-    // Process the line for bold text and other formatting
-    let segments = trimmedLine.split(/(\*\*.*?\*\*)/g);
-    segments.forEach(segment => {
-      if (segment.startsWith('**') && segment.endsWith('**')) {
-        // Bold text
-        const boldText = segment.slice(2, -2);
-        if (boldText) {
-          parts.push({ 
-            type: 'bold',
-            content: boldText,
-            level: bulletLevel
-          });
-        }
-      } else {
-        // Regular text or bullet points
-        if (segment.trim()) {
-          parts.push({
-            type: bulletLevel > 0 ? (bulletLevel > 1 ? 'subbullet' : 'bullet') : 'text',
-            content: segment.trim(),
-            level: bulletLevel
-          });
-        }
-      }
-    });
+// The answer's confidence with the checks behind it
+const ConfidenceSummary: React.FC<{ result: SearchResponse }> = ({ result }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  if (result.confidence === undefined) return null;
 
-    // Add newline if not the last line
-    if (lines.indexOf(line) < lines.length - 1) {
-      parts.push({ type: 'text', content: '\n' });
-    }
-  });
+  const level = confidenceLevel(result.confidence);
+  const factors = result.confidenceFactors || [];
 
-  return parts;
+  return (
+    <div className="text-xs text-muted-foreground">
+      <span className={`rounded-full px-2 py-0.5 font-medium ${level.className}`}>
+        {level.label} confidence ({percent(result.confidence)})
+      </span>
+      {factors.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowDetails(!showDetails)}
+          className="ml-2 underline-offset-2 hover:underline"
+          aria-expanded={showDetails}
+        >
+          {showDetails ? 'Hide details' : 'Why?'}
+        </button>
+      )}
+      {showDetails && (
+        <ul className="mt-2 list-disc space-y-1 pl-5">
+          {factors.map((factor) => (
+            <li key={factor.name}>
+              {describeFactor(factor, result)}
+              {factors.length > 1 && ` (${percent(factor.weight)} of the score)`}
+            </li>
+          ))}
+          {result.found === false ? (
+            <li>No answer was generated, so the confidence is 0</li>
+          ) : (
+            <li>The confidence is the weighted average of these checks, not the chance that the answer is right</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
 };
 
-// Updated component to render formatted text
-const FormattedContent: React.FC<{ content: string }> = ({ content }) => {
-  const parts = parseFormattedText(content);
-  
+// Answer, sources and corrections for one question
+const SearchResultView: React.FC<{
+  result: SearchResponse;
+  isStreaming: boolean;
+  onCite: (citation: Citation) => void;
+}> = ({ result, isStreaming, onCite }) => {
+  const sections = result.relevantSections || [];
+
+  const citeSection = (section: RelevantSection) =>
+    onCite({ manualId: section.manualId, fileName: section.fileName, page: section.page, section });
+
+  // A citation in the answer opens the best retrieved section on the cited page
+  const citeAnswer = (citation: AnswerCitation) => {
+    const section = sections[citation.sections[0]];
+    if (section) {
+      onCite({ manualId: section.manualId, fileName: section.fileName, page: citation.page, section });
+    }
+  };
+  const unsupportedClaims = result.grounding?.sentences.filter((sentence) => !sentence.supported) || [];
+  const unsupportedPages = [
+    ...new Set((result.citations || []).filter((citation) => !citation.supported).map((citation) => citation.page)),
+  ];
+
   return (
-    <div className="space-y-2">
-      {parts.map((part, index) => {
-        switch (part.type) {
-          case 'bold':
-            return (
-              <strong key={index} className="font-bold">
-                {part.level > 0 && (
-                  <span className="inline-block mr-2">
-                    {part.level > 1 ? '  •' : '•'}
-                  </span>
+    <div className="space-y-4">
+      {result.corrections && result.corrections.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Showing results for:{' '}
+          {result.corrections.map((correction, index) => (
+            <span key={index}>
+              {index > 0 && ', '}
+              <span className="font-medium">{correction.to}</span> (instead of "{correction.from}")
+            </span>
+          ))}
+        </p>
+      )}
+
+      <div>
+        <h3 className="flex items-center gap-2 font-medium">
+          Answer:
+          {result.found === false && (
+            <span className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs font-normal text-muted-foreground">
+              <SearchX className="h-3 w-3" />
+              Not found in this manual
+            </span>
+          )}
+        </h3>
+        <div className="mt-1 text-muted-foreground">
+          {result.answer ? (
+            <MarkdownContent
+              content={result.answer}
+              citations={result.citations}
+              onOpenCitation={citeAnswer}
+            />
+          ) : (
+            isStreaming && <span>Generating answer...</span>
+          )}
+        </div>
+        {!isStreaming && result.confidence !== undefined && (
+          <div className="mt-2">
+            <ConfidenceSummary result={result} />
+          </div>
+        )}
+        {unsupportedPages.length > 0 && (
+          <p className="mt-2 text-xs text-amber-600">
+            The answer cites {unsupportedPages.length === 1 ? 'page' : 'pages'} {unsupportedPages.join(', ')}, which{' '}
+            {unsupportedPages.length === 1 ? 'is' : 'are'} not in the sections it was based on; check{' '}
+            {unsupportedPages.length === 1 ? 'it' : 'them'} in the manual.
+          </p>
+        )}
+        {unsupportedClaims.length > 0 && (
+          <div className="mt-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+            <p className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="h-4 w-4" />
+              {unsupportedClaims.length} of {result.grounding!.sentences.length} statements could not be
+              matched to the manual's sections; check them before relying on them:
+            </p>
+            <ul className="mt-1 list-disc pl-5">
+              {unsupportedClaims.map((sentence) => (
+                <li key={sentence.start}>{sentence.text}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+      
+      {result.relevantSections && result.relevantSections.length > 0 && (
+        <div>
+          <h3 className="font-medium">
+            {result.found === false ? 'Closest Sections:' : 'Relevant Sections:'}
+          </h3>
+          <ul className="mt-1 list-disc pl-4 text-sm text-muted-foreground">
+            {result.relevantSections.map((section, index) => (
+              <li key={index} className="mt-2">
+                {section.table ? (
+                  <>
+                    <ManualTableView
+                      table={section.table}
+                      caption={`${section.fileName}, Page ${section.page}${section.sectionPath ? ` (${section.sectionPath})` : ''}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => citeSection(section)}
+                      className="text-xs text-primary underline-offset-2 hover:underline"
+                    >
+                      Show in manual
+                    </button>
+                  </>
+                ) : (
+                  <p>
+                    <button
+                      type="button"
+                      onClick={() => citeSection(section)}
+                      className="font-medium text-left underline-offset-2 hover:underline"
+                      title="Show in manual"
+                    >
+                      {section.fileName}, Page {section.page}
+                      {section.sectionPath && ` (${section.sectionPath})`}:
+                    </button>{' '}
+                    {/* Verbatim manual text, not Markdown */}
+                    <span>{section.text}</span>
+                  </p>
                 )}
-                {part.content}
-              </strong>
-            );
-          
-          case 'bullet':
-            return (
-              <div key={index} className="flex items-start space-x-2">
-                <span className="mt-1">•</span>
-                <span>{part.content}</span>
-              </div>
-            );
-          
-          case 'subbullet':
-            return (
-              <div key={index} className="flex items-start space-x-2 ml-4">
-                <span className="mt-1">•</span>
-                <span>{part.content}</span>
-              </div>
-            );
-          
-          case 'text':
-            return part.content === '\n' ? (
-              <br key={index} />
-            ) : (
-              <span key={index}>{part.content}</span>
-            );
-          
-          default:
-            return <span key={index}>{part.content}</span>;
-        }
-      })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.metadata && (
+        <div className="text-xs text-muted-foreground mt-4">
+          {result.metadata.manuals
+            .filter(manual => manual.pagesSearched.length > 0)
+            .map(manual => (
+              <p key={manual.manualId}>
+                Source: {manual.fileName} (pages {manual.pagesSearched.join(', ')} of {manual.totalPages})
+              </p>
+            ))}
+        </div>
+      )}
     </div>
   );
 };
 
-export function ManualSearch({ isEnabled }: ManualSearchProps) {
+export function ManualSearch({ isEnabled, manualIds }: ManualSearchProps) {
   const [query, setQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
-  const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
-  const [error, setError] = useState<string>('');
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [citation, setCitation] = useState<Citation | null>(null);
 
-  const handleSearch = async () => {
-    if (!query.trim()) return;
+  const updateLastTurn = (update: (turn: ChatTurn) => ChatTurn) => {
+    setTurns((current) =>
+      current.map((turn, index) => (index === current.length - 1 ? update(turn) : turn))
+    );
+  };
+
+  const handleSearch = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const question = query.trim();
+    if (!question) return;
 
     setIsSearching(true);
-    setError('');
-    setSearchResult(null);
+    setQuery('');
+    setTurns((current) => [...current, { question, result: null }]);
 
     try {
       if (!manualService.isManualLoaded()) {
         throw new Error('Please upload a manual first');
       }
 
-      const result = await manualService.searchManual(query);
-      setSearchResult(result);
+      // The conversation starts with the first question
+      let activeConversationId = conversationId;
+      if (!activeConversationId) {
+        activeConversationId = await manualService.startConversation();
+        setConversationId(activeConversationId);
+      }
+
+      // Show the sources right away, then fill in the answer as it streams
+      const result = await manualService.streamSearch(
+        question,
+        manualIds,
+        { conversationId: activeConversationId },
+        {
+          onSources: (sources) =>
+            updateLastTurn((turn) => ({ ...turn, result: { ...sources, answer: '' } })),
+          onAnswerText: (text) =>
+            updateLastTurn((turn) =>
+              turn.result
+                ? { ...turn, result: { ...turn.result, answer: turn.result.answer + text } }
+                : turn
+            ),
+        }
+      );
+      updateLastTurn((turn) => ({ ...turn, result }));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to search manual');
+      const message = err instanceof Error ? err.message : 'Failed to search manual';
+      updateLastTurn((turn) => ({ ...turn, error: message }));
     } finally {
       setIsSearching(false);
     }
   };
 
-  return (
-    <div className="space-y-4">
-      <div className="flex gap-2">
-        <Input
-          placeholder="Ask a question about the manual..."
-          value={query}
-          onChange={(e) => setQuery(e.target.value)}
-          disabled={!isEnabled || isSearching}
-        />
-        <Button 
-          onClick={handleSearch}
-          disabled={!isEnabled || isSearching || !query.trim()}
-        >
-          Search
-        </Button>
-      </div>
-
-      {isSearching && (
-        <div className="text-center text-muted-foreground">
-          Searching manual...
-        </div>
-      )}
-
-      {error && (
-        <div className="p-4 border border-destructive rounded-md bg-destructive/10 text-destructive">
-          {error}
-        </div>
-      )}
+  const handleNewConversation = () => {
+    if (conversationId) {
+      manualService.endConversation(conversationId).catch(() => {
+        // Already gone on the server; nothing to clean up
+      });
+    }
+    setConversationId(null);
+    setTurns([]);
+    setQuery('');
+    setCitation(null);
+  };
 
-      {searchResult && (
-        <Card>
-          <CardContent className="pt-6">
-            <div className="space-y-4">
-              <div>
-                <h3 className="font-medium">Answer:</h3>
-                <div className="mt-1 text-muted-foreground">
-                  <FormattedContent content={searchResult.answer} />
+  return (
+    <div className={citation ? 'grid gap-4 lg:grid-cols-2' : undefined}>
+      <div className="space-y-4">
+        {turns.map((turn, index) => {
+          const isLatest = index === turns.length - 1;
+          return (
+            <div key={index} className="space-y-2">
+              <div className="flex justify-end">
+                <div className="max-w-[80%] rounded-lg bg-primary px-3 py-2 text-sm text-primary-foreground">
+                  {turn.question}
                 </div>
               </div>
-              
-              {searchResult.relevantSections && searchResult.relevantSections.length > 0 && (
-                <div>
-                  <h3 className="font-medium">Relevant Sections:</h3>
-                  <ul className="mt-1 list-disc pl-4 text-sm text-muted-foreground">
-                    {searchResult.relevantSections.map((section, index) => (
-                      <li key={index} className="mt-2">
-                        <p>
-                          <span className="font-medium">Page {section.page}:</span>{' '}
-                          <FormattedContent content={section.text} />
-                        </p>
-                      </li>
-                    ))}
-                  </ul>
+
+              {turn.result?.standaloneQuery && turn.result.standaloneQuery !== turn.question && (
+                <p className="text-right text-xs text-muted-foreground">
+                  Searched for: {turn.result.standaloneQuery}
+                </p>
+              )}
+
+              {isLatest && isSearching && !turn.result && (
+                <div className="text-center text-muted-foreground">
+                  Searching manual...
                 </div>
               )}
 
-              {searchResult.metadata && (
-                <div className="text-xs text-muted-foreground mt-4">
-                  <p>Source: {searchResult.metadata.fileName}</p>
-                  <p>Pages searched: {searchResult.metadata.pagesSearched.join(', ')} of {searchResult.metadata.totalPages}</p>
+              {turn.error && (
+                <div className="p-4 border border-destructive rounded-md bg-destructive/10 text-destructive">
+                  {turn.error}
                 </div>
               )}
+
+              {turn.result && (
+                <Card>
+                  <CardContent className="pt-6">
+                    <SearchResultView
+                      result={turn.result}
+                      isStreaming={isLatest && isSearching}
+                      onCite={setCitation}
+                    />
+                  </CardContent>
+                </Card>
+              )}
             </div>
-          </CardContent>
-        </Card>
+          );
+        })}
+
+        <form className="flex gap-2" onSubmit={handleSearch}>
+          <Input
+            placeholder={
+              turns.length > 0
+                ? 'Ask a follow-up question...'
+                : 'Ask a question about the manual...'
+            }
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            disabled={!isEnabled || isSearching}
+          />
+          <Button 
+            type="submit"
+            disabled={!isEnabled || isSearching || !query.trim()}
+          >
+            Search
+          </Button>
+          {turns.length > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleNewConversation}
+              disabled={isSearching}
+            >
+              <MessageSquarePlus className="mr-2 h-4 w-4" />
+              New conversation
+            </Button>
+          )}
+        </form>
+      </div>
+
+      {citation && (
+        <div className="h-[80vh] lg:sticky lg:top-4">
+          <PdfViewer
+            url={manualService.pdfUrl(citation.manualId)}
+            title={citation.fileName}
+            page={citation.page}
+            highlights={citation.section?.highlights ?? []}
+            onClose={() => setCitation(null)}
+          />
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from "react";
+import { Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  InstructionResponse,
+  JobProgress,
+  ManualMetadata,
+  manualService,
+} from "@/services/geminiService";
+import ProcessingIndicator from "./ProcessingIndicator";
+import ProcedureBrowser from "./ProcedureBrowser";
+
+interface ManualSimplifierProps {
+  manuals: ManualMetadata[];
+  // Preselected manual, e.g. the one just uploaded
+  defaultManualId?: string;
+}
+
+const EXTRACTION_STAGES = [
+  "Parsing pages...",
+  "Sending batches to the model...",
+  "Merging results...",
+];
+
+const ManualSimplifier = ({ manuals, defaultManualId }: ManualSimplifierProps) => {
+  const [manualId, setManualId] = useState(defaultManualId ?? manuals[0]?.id);
+  // Results are kept per manual so switching back doesn't run the extraction again
+  const [results, setResults] = useState<Record<string, InstructionResponse>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const [error, setError] = useState("");
+
+  // Fall back to another manual when the selected one is removed from the library
+  useEffect(() => {
+    if (!manuals.some((manual) => manual.id === manualId)) {
+      setManualId(manuals[0]?.id);
+    }
+  }, [manuals, manualId]);
+
+  const handleSimplify = async () => {
+    if (!manualId) return;
+
+    setProcessingId(manualId);
+    setProgress(null);
+    setError("");
+
+    try {
+      const result = await manualService.simplifyManual(manualId, setProgress);
+      setResults((current) => ({ ...current, [manualId]: result }));
+    } catch (err) {
+      console.error("Error simplifying manual:", err);
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to simplify the manual. Please try again."
+      );
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (manuals.length === 0) {
+    return null;
+  }
+
+  const result = manualId ? results[manualId] : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Select
+          value={manualId}
+          onValueChange={(value) => {
+            setManualId(value);
+            setError("");
+          }}
+          disabled={processingId !== null}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Choose a manual" />
+          </SelectTrigger>
+          <SelectContent>
+            {manuals.map((manual) => (
+              <SelectItem key={manual.id} value={manual.id}>
+                {manual.fileName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleSimplify}
+          disabled={!manualId || processingId !== null}
+          className="flex items-center gap-2"
+        >
+          <Wand2 className="h-4 w-4" />
+          {result ? "Simplify again" : "Simplify manual"}
+        </Button>
+      </div>
+
+      {processingId !== null && (
+        <ProcessingIndicator
+          isProcessing={true}
+          stages={EXTRACTION_STAGES}
+          stage={progress?.stage ?? EXTRACTION_STAGES[0]}
+          progress={progress?.percent ?? 0}
+          detail={progress?.detail}
+        />
+      )}
+
+      {error && (
+        <div className="p-4 border border-destructive rounded-md bg-destructive/10 text-destructive">
+          <p className="font-medium">Error Simplifying Manual</p>
+          <p className="mt-1 text-sm">{error}</p>
+        </div>
+      )}
+
+      {processingId === null && result && (
+        <ProcedureBrowser key={manualId} result={result} manualId={manualId} />
+      )}
+
+      {processingId === null && !result && !error && (
+        <p className="text-sm text-muted-foreground">
+          Turn the manual into step-by-step procedures you can browse.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ManualSimplifier;
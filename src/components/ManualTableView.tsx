@@ -0,0 +1,45 @@
+import React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ManualTable } from "@/services/geminiService";
+
+interface ManualTableViewProps {
+  table: ManualTable;
+  caption?: string;
+}
+
+const ManualTableView = ({ table, caption }: ManualTableViewProps) => {
+  return (
+    <div className="rounded-md border">
+      {caption && (
+        <div className="border-b px-3 py-2 text-xs font-medium">{caption}</div>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {table.headers.map((header, index) => (
+              <TableHead key={index}>{header}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {table.rows.map((row, rowIndex) => (
+            <TableRow key={rowIndex}>
+              {row.map((cell, cellIndex) => (
+                <TableCell key={cellIndex}>{cell}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default ManualTableView;
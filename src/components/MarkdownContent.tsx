@@ -0,0 +1,161 @@
+import React from "react";
+import ReactMarkdown, { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { AnswerCitation } from "@/services/geminiService";
+
+interface MarkdownContentProps {
+  content: string;
+  // Checked page citations in the content; they are shown as links
+  citations?: AnswerCitation[];
+  // Called when a supported citation is clicked; without it citations stay plain text
+  onOpenCitation?: (citation: AnswerCitation) => void;
+}
+
+// The parts of a Markdown syntax tree node the citation plugin looks at
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+  position?: { start: { offset?: number }; end: { offset?: number } };
+}
+
+const CITATION_LINK_PREFIX = "#citation-";
+// Citations inside these are left alone
+const SKIPPED_NODES = new Set(["link", "linkReference", "definition", "code", "inlineCode"]);
+
+// Splits a text node around the citations falling within its span of the source
+const splitCitations = (node: MarkdownNode, citations: AnswerCitation[]): MarkdownNode[] => {
+  const value = node.value ?? "";
+  const start = node.position?.start.offset;
+  const end = node.position?.end.offset;
+  if (start === undefined || end === undefined) return [node];
+
+  const nodes: MarkdownNode[] = [];
+  let last = 0;
+  citations.forEach((citation, index) => {
+    // Pages inside a range ("pp. 4-6") have no text of their own to link
+    if (!citation.text || citation.start < start || citation.end > end) return;
+    // Escapes make the text shorter than its source, so the citation is searched for
+    // rather than taken at its offset
+    const at = value.indexOf(citation.text, last);
+    if (at === -1) return;
+    if (at > last) {
+      nodes.push({ type: "text", value: value.slice(last, at) });
+    }
+    nodes.push({
+      type: "link",
+      url: `${CITATION_LINK_PREFIX}${index}`,
+      children: [{ type: "text", value: citation.text }],
+    });
+    last = at + citation.text.length;
+  });
+  if (last < value.length) {
+    nodes.push({ type: "text", value: value.slice(last) });
+  }
+  return nodes;
+};
+
+const linkCitations = (node: MarkdownNode, citations: AnswerCitation[]) => {
+  if (!node.children) return;
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text" && child.value) return splitCitations(child, citations);
+    if (!SKIPPED_NODES.has(child.type)) linkCitations(child, citations);
+    return [child];
+  });
+};
+
+// Remark plugin turning the citations found by the server into links the renderer
+// shows as citation buttons, matched to the text by their offsets in the source
+const remarkCitations =
+  ({ citations }: { citations: AnswerCitation[] }) =>
+  (tree: MarkdownNode) =>
+    linkCitations(tree, citations);
+
+/**
+ * Renders model output as Markdown: headings, ordered and nested lists, GFM tables
+ * and code blocks. Raw HTML in the text is never rendered, link URLs are sanitised
+ * and images are dropped, so answers can't inject markup or load remote content.
+ */
+const MarkdownContent = ({ content, citations = [], onOpenCitation }: MarkdownContentProps) => {
+  const components: Components = {
+    a: ({ node, href, children, ...props }) => {
+      const citation = href?.startsWith(CITATION_LINK_PREFIX)
+        ? citations[Number(href.slice(CITATION_LINK_PREFIX.length))]
+        : undefined;
+      if (citation) {
+        if (!citation.supported) {
+          return (
+            <span
+              className="text-amber-600 underline decoration-dotted underline-offset-2"
+              title={`Page ${citation.page} is not in the sections this answer was based on`}
+            >
+              {children}
+            </span>
+          );
+        }
+        return onOpenCitation ? (
+          <button
+            type="button"
+            onClick={() => onOpenCitation(citation)}
+            className="text-primary underline-offset-2 hover:underline"
+          >
+            {children}
+          </button>
+        ) : (
+          <>{children}</>
+        );
+      }
+      return (
+        <a
+          {...props}
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="text-primary underline underline-offset-2"
+        >
+          {children}
+        </a>
+      );
+    },
+    h1: ({ node, ...props }) => <h3 className="mt-3 text-lg font-semibold text-foreground" {...props} />,
+    h2: ({ node, ...props }) => <h4 className="mt-3 text-base font-semibold text-foreground" {...props} />,
+    h3: ({ node, ...props }) => <h5 className="mt-2 font-semibold text-foreground" {...props} />,
+    h4: ({ node, ...props }) => <h6 className="mt-2 font-medium text-foreground" {...props} />,
+    p: ({ node, ...props }) => <p className="my-2" {...props} />,
+    ul: ({ node, ...props }) => <ul className="my-2 list-disc space-y-1 pl-5" {...props} />,
+    ol: ({ node, ...props }) => <ol className="my-2 list-decimal space-y-1 pl-5" {...props} />,
+    strong: ({ node, ...props }) => <strong className="font-semibold text-foreground" {...props} />,
+    blockquote: ({ node, ...props }) => (
+      <blockquote className="my-2 border-l-2 pl-3 italic" {...props} />
+    ),
+    table: ({ node, ...props }) => (
+      <div className="my-2 overflow-x-auto">
+        <table className="w-full border-collapse text-sm" {...props} />
+      </div>
+    ),
+    th: ({ node, ...props }) => (
+      <th className="border px-2 py-1 text-left font-medium text-foreground" {...props} />
+    ),
+    td: ({ node, ...props }) => <td className="border px-2 py-1" {...props} />,
+    pre: ({ node, ...props }) => (
+      <pre className="my-2 overflow-x-auto rounded-md bg-muted p-3 text-sm" {...props} />
+    ),
+    code: ({ node, ...props }) => <code className="rounded bg-muted px-1 font-mono text-sm" {...props} />,
+  };
+
+  return (
+    <div className="text-sm leading-relaxed [&>*:first-child]:mt-0">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, [remarkCitations, { citations }]]}
+        components={components}
+        disallowedElements={["img"]}
+        unwrapDisallowed
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownContent;
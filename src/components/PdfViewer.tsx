@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from "react";
+import * as pdfjsLib from "pdfjs-dist";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.js?url";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Highlight } from "@/services/geminiService";
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Pages are rendered at this width and scaled down with CSS to fit the panel
+const RENDER_WIDTH = 900;
+// Pages this far outside the panel are rendered ahead of being scrolled to
+const PRERENDER_MARGIN = "600px";
+// Space left above the first highlight when scrolling to it
+const SCROLL_PADDING = 48;
+
+interface PdfViewerProps {
+  url: string;
+  title?: string;
+  // Page to show; changing it scrolls the viewer there
+  page: number;
+  // Lines to highlight, e.g. the passage a citation refers to
+  highlights?: Highlight[];
+  onClose?: () => void;
+}
+
+interface PdfPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  // Height / width of the page, used for the placeholder until it is rendered
+  aspectRatio: number;
+  highlights: Highlight[];
+  pageRef: (element: HTMLDivElement | null) => void;
+}
+
+// One page: a placeholder of the right size that draws itself once it comes near the view
+const PdfPage = ({ pdf, pageNumber, aspectRatio, highlights, pageRef }: PdfPageProps) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [ratio, setRatio] = useState(aspectRatio);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          setIsVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: PRERENDER_MARGIN }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    pdf.getPage(pageNumber).then((page) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+
+      const unscaled = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: RENDER_WIDTH / unscaled.width });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      setRatio(viewport.height / viewport.width);
+
+      renderTask = page.render({ canvasContext: canvas.getContext("2d"), viewport });
+      renderTask.promise.catch((error) => {
+        if (error?.name !== "RenderingCancelledException") {
+          console.error(`Error rendering page ${pageNumber}:`, error);
+        }
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, isVisible]);
+
+  return (
+    <div
+      ref={(element) => {
+        containerRef.current = element;
+        pageRef(element);
+      }}
+      className="relative w-full bg-white shadow-sm"
+      style={{ aspectRatio: `1 / ${ratio}` }}
+      data-page={pageNumber}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+      {highlights.map(({ box: [left, top, width, height] }, index) => (
+        <div
+          key={index}
+          className="absolute rounded-sm bg-yellow-300/40 ring-1 ring-yellow-500/60"
+          style={{
+            left: `${left * 100}%`,
+            top: `${top * 100}%`,
+            width: `${width * 100}%`,
+            height: `${height * 100}%`,
+          }}
+        />
+      ))}
+      <span className="absolute bottom-1 right-2 text-xs text-muted-foreground">
+        {pageNumber}
+      </span>
+    </div>
+  );
+};
+
+/**
+ * Shows a manual's PDF page by page and scrolls to the cited page, highlighting the
+ * lines the citation was read from
+ */
+const PdfViewer = ({ url, title, page, highlights = [], onClose }: PdfViewerProps) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [aspectRatio, setAspectRatio] = useState(1.294); // US Letter until the first page is read
+  const [error, setError] = useState("");
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const pageRefs = useRef(new Map<number, HTMLDivElement>());
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadingTask = pdfjsLib.getDocument(url);
+    setPdf(null);
+    setError("");
+
+    loadingTask.promise
+      .then(async (document) => {
+        const firstPage = await document.getPage(1);
+        const viewport = firstPage.getViewport({ scale: 1 });
+        if (cancelled) return;
+        setAspectRatio(viewport.height / viewport.width);
+        setPdf(document);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Error loading PDF:", err);
+        setError(err instanceof Error ? err.message : "Failed to load the PDF");
+      });
+
+    return () => {
+      cancelled = true;
+      loadingTask.destroy();
+    };
+  }, [url]);
+
+  // Scroll to the cited page, or to its first highlighted line when there is one
+  useEffect(() => {
+    const container = scrollRef.current;
+    const pageElement = pageRefs.current.get(page);
+    if (!pdf || !container || !pageElement) return;
+
+    const onPage = highlights.filter((highlight) => highlight.page === page);
+    const firstTop = onPage.length > 0 ? Math.min(...onPage.map(({ box }) => box[1])) : 0;
+    container.scrollTo({
+      top: Math.max(
+        0,
+        pageElement.offsetTop + firstTop * pageElement.offsetHeight - SCROLL_PADDING
+      ),
+      behavior: "smooth",
+    });
+  }, [pdf, page, highlights]);
+
+  return (
+    <div className="flex h-full flex-col rounded-md border bg-muted/30">
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <span className="truncate text-sm font-medium">
+          {title ? `${title}, page ${page}` : `Page ${page}`}
+        </span>
+        {onClose && (
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close viewer">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="relative flex-1 space-y-3 overflow-y-auto p-3">
+        {error && (
+          <p className="text-sm text-destructive">Could not load the PDF: {error}</p>
+        )}
+        {!pdf && !error && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {pdf &&
+          Array.from({ length: pdf.numPages }, (_, index) => index + 1).map((pageNumber) => (
+            <PdfPage
+              key={pageNumber}
+              pdf={pdf}
+              pageNumber={pageNumber}
+              aspectRatio={aspectRatio}
+              highlights={highlights.filter((highlight) => highlight.page === pageNumber)}
+              pageRef={(element) => {
+                if (element) {
+                  pageRefs.current.set(pageNumber, element);
+                } else {
+                  pageRefs.current.delete(pageNumber);
+                }
+              }}
+            />
+          ))}
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
@@ -0,0 +1,159 @@
+import React, { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  InstructionResponse,
+  Procedure,
+  ProcedureItem,
+  manualService,
+} from "@/services/geminiService";
+import InstructionDisplay from "./InstructionDisplay";
+
+interface ProcedureBrowserProps {
+  result: InstructionResponse;
+  // Manual the result was extracted from, so page references can open its PDF
+  manualId?: string;
+}
+
+const formatPages = (procedure: Procedure) =>
+  procedure.pageStart === procedure.pageEnd
+    ? `Page ${procedure.pageStart}`
+    : `Pages ${procedure.pageStart}-${procedure.pageEnd}`;
+
+const toListItem = ({ text, pages, quote }: ProcedureItem) => ({
+  text,
+  source: { pages, quote },
+});
+
+const ProcedureBrowser = ({ result, manualId }: ProcedureBrowserProps) => {
+  const [filter, setFilter] = useState("");
+  const [selectedId, setSelectedId] = useState(result.procedures[0]?.id);
+
+  const query = filter.trim().toLowerCase();
+  const procedures = query
+    ? result.procedures.filter(
+        (procedure) =>
+          procedure.title.toLowerCase().includes(query) ||
+          procedure.section.toLowerCase().includes(query),
+      )
+    : result.procedures;
+  const selected = result.procedures.find(
+    (procedure) => procedure.id === selectedId,
+  );
+
+  const openPage = manualId
+    ? (page: number) =>
+        window.open(`${manualService.pdfUrl(manualId)}#page=${page}`, "_blank")
+    : undefined;
+
+  return (
+    <div className="space-y-4">
+      {result.warnings.length > 0 && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3">
+          <h3 className="flex items-center gap-2 font-medium text-red-600">
+            <AlertTriangle className="h-4 w-4" />
+            General safety warnings
+          </h3>
+          <ul className="mt-2 list-disc list-inside space-y-1 text-sm text-red-500">
+            {result.warnings.map((warning, index) => (
+              <li key={index}>
+                {warning.text}{" "}
+                {openPage ? (
+                  <button
+                    type="button"
+                    onClick={() => openPage(warning.pages[0])}
+                    className="text-red-400 underline-offset-2 hover:underline"
+                    title={warning.quote ?? undefined}
+                  >
+                    (page {warning.pages[0]})
+                  </button>
+                ) : (
+                  <span className="text-red-400" title={warning.quote ?? undefined}>
+                    (page {warning.pages[0]})
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.chunkErrors.length > 0 && (
+        <p className="text-sm text-amber-600">
+          {result.chunkErrors.length} section(s) could not be read and may be
+          missing procedures:{" "}
+          {result.chunkErrors
+            .map((chunkError) =>
+              chunkError.sectionPath
+                ? `${chunkError.sectionPath} (page ${chunkError.page})`
+                : `page ${chunkError.page}`,
+            )
+            .join(", ")}
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-[18rem_1fr]">
+        <div className="space-y-2">
+          <h3 className="font-medium">
+            {result.procedures.length} procedures
+          </h3>
+          <Input
+            placeholder="Filter procedures..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          <ScrollArea className="h-[480px] rounded-md border">
+            <ul className="divide-y">
+              {procedures.map((procedure) => (
+                <li key={procedure.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(procedure.id)}
+                    className={`w-full px-3 py-2 text-left text-sm hover:bg-muted ${
+                      procedure.id === selectedId ? "bg-muted" : ""
+                    }`}
+                  >
+                    <span className="block font-medium">{procedure.title}</span>
+                    <span className="block text-muted-foreground">
+                      {procedure.section
+                        ? `${procedure.section} · ${formatPages(procedure)}`
+                        : formatPages(procedure)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+              {procedures.length === 0 && (
+                <li className="px-3 py-2 text-sm text-muted-foreground">
+                  No procedures match "{filter}"
+                </li>
+              )}
+            </ul>
+          </ScrollArea>
+        </div>
+
+        {selected && (
+          <InstructionDisplay
+            title={selected.title}
+            subtitle={
+              selected.section
+                ? `${selected.section} · ${formatPages(selected)}`
+                : formatPages(selected)
+            }
+            instructions={selected.steps.map((item, index) => ({
+              step: index + 1,
+              content: item.text,
+              source: { pages: item.pages, quote: item.quote },
+            }))}
+            prerequisites={selected.prerequisites.map(toListItem)}
+            tools={selected.tools.map(toListItem)}
+            warnings={selected.warnings.map(toListItem)}
+            onOpenPage={openPage}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProcedureBrowser;
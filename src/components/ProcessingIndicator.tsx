@@ -8,21 +8,26 @@ interface ProcessingIndicatorProps {
   isProcessing?: boolean;
   progress?: number;
   stage?: string;
+  /** Stage names in order; the current stage and those before it are highlighted */
+  stages?: string[];
+  detail?: string;
 }
 
+const DEFAULT_STAGES = [
+  "Analyzing PDF...",
+  "Extracting content...",
+  "Identifying key steps...",
+  "Simplifying instructions...",
+  "Finalizing results...",
+];
+
 const ProcessingIndicator = ({
   isProcessing = true,
   progress = 0,
   stage = "Analyzing PDF...",
+  stages = DEFAULT_STAGES,
+  detail,
 }: ProcessingIndicatorProps) => {
-  const stages = [
-    "Analyzing PDF...",
-    "Extracting content...",
-    "Identifying key steps...",
-    "Simplifying instructions...",
-    "Finalizing results...",
-  ];
-
   const currentStageIndex =
     stages.indexOf(stage) !== -1 ? stages.indexOf(stage) : 0;
 
@@ -42,6 +47,12 @@ const ProcessingIndicator = ({
 
           <Progress value={progress} className="w-full h-2" />
 
+          {detail && (
+            <p className="text-xs text-muted-foreground">
+              {detail} ({progress}%)
+            </p>
+          )}
+
           <div className="w-full flex justify-between text-xs text-muted-foreground mt-1">
             {stages.map((s, i) => (
               <div
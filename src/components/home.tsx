@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import {
   Card,
   CardContent,
@@ -8,25 +8,59 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import PDFUploader from "./PDFUploader";
 import ProcessingIndicator from "./ProcessingIndicator";
 import { ManualSearch } from "./ManualSearch";
-import { manualService } from "@/services/geminiService";
+import ManualLibrary from "./ManualLibrary";
+import ManualSimplifier from "./ManualSimplifier";
+import {
+  JobProgress,
+  ManualMetadata,
+  manualService,
+} from "@/services/geminiService";
 
 type ProcessingStatus = "idle" | "processing" | "completed" | "error";
 
+const UPLOAD_STAGES = [
+  "Parsing pages...",
+  "Embedding chunks...",
+  "Saving manual...",
+];
+
 export default function Home() {
   const [status, setStatus] = useState<ProcessingStatus>("idle");
   const [fileName, setFileName] = useState<string>("");
   const [error, setError] = useState<string>("");
+  const [manuals, setManuals] = useState<ManualMetadata[]>([]);
+  const [selectedManualIds, setSelectedManualIds] = useState<string[]>([]);
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const [mode, setMode] = useState("search");
+
+  // Pick up manuals that are already in the server's library
+  useEffect(() => {
+    manualService
+      .refreshManuals()
+      .then((library) => {
+        setManuals(library);
+        if (library.length > 0) {
+          setSelectedManualIds(library.map((m) => m.id));
+          setStatus((current) => (current === "idle" ? "completed" : current));
+        }
+      })
+      .catch((err) => console.error("Error loading manual library:", err));
+  }, []);
 
   const handleFileUpload = async (file: File) => {
     setFileName(file.name);
     setStatus("processing");
     setError("");
+    setProgress(null);
 
     try {
-      await manualService.uploadManual(file);
+      const manual = await manualService.uploadManual(file, setProgress);
+      setManuals(manualService.getManuals());
+      setSelectedManualIds([manual.id]);
       setStatus("completed");
     } catch (err) {
       console.error("Error processing PDF:", err);
@@ -45,6 +79,20 @@ export default function Home() {
     setError("");
   };
 
+  const handleRemoveManual = async (manualId: string) => {
+    try {
+      await manualService.removeManual(manualId);
+      const remaining = manualService.getManuals();
+      setManuals(remaining);
+      setSelectedManualIds((ids) => ids.filter((id) => id !== manualId));
+      if (remaining.length === 0) {
+        handleReset();
+      }
+    } catch (err) {
+      console.error("Error removing manual:", err);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <header className="border-b py-4">
@@ -53,7 +101,7 @@ export default function Home() {
             Manual Search Assistant
           </h1>
           <p className="text-muted-foreground">
-            Upload a manual and ask questions about specific tasks
+            Upload a manual to ask questions about it or simplify it into procedures
           </p>
         </div>
       </header>
@@ -61,9 +109,13 @@ export default function Home() {
       <main className="flex-1 container mx-auto px-4 py-8">
         <Card className="w-full max-w-4xl mx-auto bg-card">
           <CardHeader>
-            <CardTitle>Search Your Manual</CardTitle>
+            <CardTitle>
+              {mode === "simplify" ? "Simplify Your Manual" : "Search Your Manual"}
+            </CardTitle>
             <CardDescription>
-              Upload a PDF manual and ask questions to get specific instructions
+              {mode === "simplify"
+                ? "Turn an uploaded manual into step-by-step procedures"
+                : "Upload a PDF manual and ask questions to get specific instructions"}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -72,7 +124,13 @@ export default function Home() {
             )}
 
             {status === "processing" && (
-              <ProcessingIndicator isProcessing={true} stage="Processing manual..." />
+              <ProcessingIndicator
+                isProcessing={true}
+                stages={UPLOAD_STAGES}
+                stage={progress?.stage ?? UPLOAD_STAGES[0]}
+                progress={progress?.percent ?? 0}
+                detail={progress?.detail}
+              />
             )}
 
             {status === "error" && (
@@ -82,13 +140,41 @@ export default function Home() {
               </div>
             )}
 
-            {status === "completed" && (
-              <>
-                <div className="text-sm text-muted-foreground">
-                  Manual uploaded: {fileName}
-                </div>
-                <ManualSearch isEnabled={true} />
-              </>
+            {/* Kept mounted, only hidden, while another manual is uploaded so the
+                conversation and a running extraction survive it */}
+            {manuals.length > 0 && (
+              <div className={status === "completed" ? "space-y-6" : "hidden"}>
+                {fileName && (
+                  <div className="text-sm text-muted-foreground">
+                    Manual uploaded: {fileName}
+                  </div>
+                )}
+                <Tabs value={mode} onValueChange={setMode}>
+                  <TabsList>
+                    <TabsTrigger value="search">Search</TabsTrigger>
+                    <TabsTrigger value="simplify">Simplify manual</TabsTrigger>
+                  </TabsList>
+                  {/* Both tabs stay mounted so the conversation and a running extraction survive switching */}
+                  <TabsContent value="search" forceMount className="space-y-6 data-[state=inactive]:hidden">
+                    <ManualLibrary
+                      manuals={manuals}
+                      selectedIds={selectedManualIds}
+                      onSelectionChange={setSelectedManualIds}
+                      onRemove={handleRemoveManual}
+                    />
+                    <ManualSearch
+                      isEnabled={selectedManualIds.length > 0}
+                      manualIds={selectedManualIds}
+                    />
+                  </TabsContent>
+                  <TabsContent value="simplify" forceMount className="data-[state=inactive]:hidden">
+                    <ManualSimplifier
+                      manuals={manuals}
+                      defaultManualId={selectedManualIds[0]}
+                    />
+                  </TabsContent>
+                </Tabs>
+              </div>
             )}
           </CardContent>
 
@@ -97,6 +183,14 @@ export default function Home() {
               <Button onClick={handleReset}>Upload Another Manual</Button>
             </CardFooter>
           )}
+
+          {status === "idle" && manuals.length > 0 && (
+            <CardFooter>
+              <Button variant="outline" onClick={() => setStatus("completed")}>
+                Back to Your Manuals
+              </Button>
+            </CardFooter>
+          )}
         </Card>
       </main>
 
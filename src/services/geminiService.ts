@@ -10,36 +10,387 @@ console.log('API Key length:', GEMINI_API_KEY?.length);
 const GEMINI_MODEL = "gemini-pro";
 const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/${GEMINI_MODEL}:generateContent`;
 
-export interface GeminiResponse {
+/**
+ * A section of the manual skipped during extraction because the model's reply
+ * did not match the expected structure
+ */
+export interface ChunkError {
+  chunk: number;
+  page: number;
+  sectionPath: string;
+  error: string;
+}
+
+/**
+ * A step, warning, prerequisite or tool, with the pages and quoted passage of the
+ * manual it was extracted from (null when no matching passage was found)
+ */
+export interface ProcedureItem {
+  text: string;
+  pages: number[];
+  quote: string | null;
+}
+
+/**
+ * A procedure extracted from a manual, with the section and pages it was found in
+ */
+export interface Procedure {
+  id: string;
   title: string;
-  prerequisites: string[];
-  warnings: string[];
-  steps: string[];
+  section: string;
+  pageStart: number;
+  pageEnd: number;
+  prerequisites: ProcedureItem[];
+  tools: ProcedureItem[];
+  warnings: ProcedureItem[];
+  steps: ProcedureItem[];
 }
 
-interface InstructionResponse {
+export interface InstructionResponse {
   title: string;
-  prerequisites: string[];
-  warnings: string[];
-  steps: string[];
+  procedures: Procedure[];
+  // General safety warnings not tied to one procedure
+  warnings: ProcedureItem[];
+  chunkErrors: ChunkError[];
+}
+
+export interface OcrPage {
+  page: number;
+  /** OCR confidence between 0 and 1 */
+  confidence: number;
 }
 
-export interface ManualContent {
+export interface ManualMetadata {
   id: string;
-  content: string;
-  embedding: number[];
+  fileName: string;
+  pageCount: number;
+  totalChunks: number;
+  /** Pages read with OCR because they had no usable text layer */
+  ocrPages: OcrPage[];
+  embeddingProvider: string;
+  uploadedAt: string;
+}
+
+/**
+ * A table reconstructed from a manual page
+ */
+export interface ManualTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Where a line of a manual is drawn: its page and box [left, top, width, height]
+ * as fractions of the page size, measured from the top-left corner
+ */
+export interface Highlight {
+  page: number;
+  box: [number, number, number, number];
+}
+
+export interface RelevantSection {
+  text: string;
+  page: number;
+  /** Headings leading to the passage, e.g. "4 Maintenance > 4.2 Filter replacement" */
+  sectionPath: string;
+  /** Set when the passage is a table; text then holds its Markdown rendering */
+  table: ManualTable | null;
+  /**
+   * The lines of the passage that match the question, or all the lines it was read from
+   * when none does; empty for manuals indexed before positions were kept
+   */
+  highlights?: Highlight[];
+  manualId: string;
+  fileName: string;
+  /** Share of the question's terms found in the passage, between 0 and 1 */
+  confidence: number;
+  /** Rank fusion score the passage was ordered by; only comparable within one search */
+  rankScore: number;
+  lexicalScore: number;
+  vectorScore: number;
+}
+
+export interface SearchedManual {
+  manualId: string;
+  fileName: string;
+  totalPages: number;
+  pagesSearched: number[];
+}
+
+export interface SearchMetadata {
+  manuals: SearchedManual[];
+}
+
+/**
+ * Relative weight of the lexical (BM25) and semantic (embedding) rankings
+ */
+export interface SearchWeights {
+  lexical?: number;
+  vector?: number;
+}
+
+export interface SearchOptions {
+  weights?: SearchWeights;
+  /** Ask within a conversation (see startConversation) so follow-ups keep their context */
+  conversationId?: string;
+}
+
+/**
+ * A misspelled query word replaced by the closest word found in the manuals
+ */
+export interface QueryCorrection {
+  from: string;
+  to: string;
+}
+
+/**
+ * A page cited in an answer, checked against the sections the answer was generated from
+ */
+export interface AnswerCitation {
+  /** The citation as written, e.g. "Page 12"; empty for a page inside a range ("pp. 4-6") */
+  text: string;
+  /** Where the citation is in the answer: [start, end) */
+  start: number;
+  end: number;
+  page: number;
+  /** The cited manual; null when the citation is unsupported */
+  manualId: string | null;
+  fileName: string | null;
+  /** False when no retrieved section is on the page, so the citation can't be trusted */
+  supported: boolean;
+  /** Indexes into relevantSections of the sections on the cited page, best first */
+  sections: number[];
+}
+
+/**
+ * How well the best retrieved section matches the question. When neither its words
+ * nor its meaning are close enough, the manual is taken not to cover the question and
+ * no answer is generated.
+ */
+export interface SearchEvidence {
+  /** Share of the question's terms found in the best section, between 0 and 1; spelling corrections count half */
+  score: number;
+  threshold: number;
+  /** Highest embedding similarity of a section to the question */
+  similarity: number;
+  /** Similarity from which a section answers the question on its own; null if not used */
+  similarityThreshold: number | null;
+  sufficient: boolean;
+  /** Index into relevantSections of the best section */
+  section: number | null;
+}
+
+/**
+ * A sentence of an answer checked against the retrieved sections
+ */
+export interface GroundedSentence {
+  text: string;
+  /** Where the sentence is in the answer: [start, end) */
+  start: number;
+  end: number;
+  /** Share of the sentence's terms found in the section that supports it best */
+  score: number;
+  /** False when no section backs the sentence, so it may not come from the manual */
+  supported: boolean;
+  /** Index into relevantSections of that section */
+  section: number | null;
+}
+
+export interface AnswerGrounding {
+  /** Share of the checked sentences that are supported, between 0 and 1 */
+  score: number;
+  sentences: GroundedSentence[];
+}
+
+/**
+ * One of the checks an answer's confidence is computed from
+ */
+export interface ConfidenceFactor {
+  /**
+   * match: share of the question's terms in the best section;
+   * similarity: best vectorScore as a share of the similarity needed to answer from a section;
+   * ranking: the top section's rankScore as a share of the most it can be (first in both rankings);
+   * grounding: share of the answer's statements backed by a section;
+   * citations: share of the cited pages that were retrieved
+   */
+  name: 'match' | 'similarity' | 'ranking' | 'grounding' | 'citations';
+  score: number;
+  /** Share of the confidence the factor accounts for; the weights add up to 1 */
+  weight: number;
 }
 
 export interface SearchResponse {
   answer: string;
-  relevantSections: string[];
-  confidence: number;
+  relevantSections: RelevantSection[];
+  /** False when the manual doesn't seem to cover the question; the answer then says so */
+  found?: boolean;
+  evidence?: SearchEvidence;
+  /** Set once the answer is complete */
+  citations?: AnswerCitation[];
+  /** Set once the answer is complete; null when no answer was generated */
+  grounding?: AnswerGrounding | null;
+  corrections?: QueryCorrection[];
+  /**
+   * How far the answer can be trusted, between 0 and 1: the weighted average of
+   * confidenceFactors, not a probability. 0 when no answer was generated; set once the
+   * answer is complete
+   */
+  confidence?: number;
+  confidenceFactors?: ConfidenceFactor[];
+  metadata?: SearchMetadata;
+  conversationId?: string | null;
+  /** The question rewritten to stand on its own, as used for retrieval */
+  standaloneQuery?: string;
+}
+
+/**
+ * Passages and metadata of a search, sent before the answer when streaming
+ */
+export type SearchSources = Omit<
+  SearchResponse,
+  'answer' | 'found' | 'citations' | 'grounding' | 'confidence' | 'confidenceFactors'
+>;
+
+export interface SearchStreamHandlers {
+  /** Called once retrieval is done, before any of the answer arrives */
+  onSources?: (sources: SearchSources) => void;
+  /** Called with each new piece of the answer */
+  onAnswerText?: (text: string) => void;
+}
+
+/**
+ * Splits a server-sent event stream into { event, data } messages
+ */
+async function* readEventStream(
+  response: Response
+): AsyncGenerator<{ event: string; data: string }> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffered.indexOf('\n\n')) !== -1) {
+      const message = buffered.slice(0, boundary);
+      buffered = buffered.slice(boundary + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      message.split('\n').forEach((line) => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        if (line.startsWith('data:')) data.push(line.slice(5).trim());
+      });
+      yield { event, data: data.join('\n') };
+    }
+  }
+}
+
+export type JobStatus = "running" | "completed" | "failed";
+
+/**
+ * Progress of a background ingestion job, as reported by /jobs/:id
+ */
+export interface JobProgress {
+  id: string;
+  type: string;
+  status: JobStatus;
+  stage: string;
+  /** 0-100 */
+  percent: number;
+  /** e.g. "12/40 pages parsed" */
+  detail: string;
 }
 
+export type ProgressHandler = (progress: JobProgress) => void;
+
+/**
+ * Follows a background job over server-sent events until it finishes.
+ * Resolves with the job's result, or rejects with its error.
+ */
+export const waitForJob = <T>(jobId: string, onProgress?: ProgressHandler): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const events = new EventSource(`http://localhost:3001/jobs/${encodeURIComponent(jobId)}/events`);
+
+    events.addEventListener('progress', (event) => {
+      onProgress?.(JSON.parse((event as MessageEvent).data));
+    });
+
+    events.addEventListener('completed', (event) => {
+      events.close();
+      const job = JSON.parse((event as MessageEvent).data);
+      onProgress?.(job);
+      resolve(job.result);
+    });
+
+    events.addEventListener('failed', (event) => {
+      events.close();
+      const job = JSON.parse((event as MessageEvent).data);
+      reject(new Error(job.error?.details || job.error?.error || 'Processing failed'));
+    });
+
+    events.onerror = () => {
+      // The server closes the stream after the final event; anything else is a lost connection
+      if (events.readyState === EventSource.CLOSED) return;
+      events.close();
+      reject(new Error('Lost connection while waiting for processing to finish'));
+    };
+  });
+
+/**
+ * Posts a PDF to an ingestion endpoint and waits for its background job
+ */
+const submitPdfJob = async <T>(url: string, file: File, onProgress?: ProgressHandler): Promise<T> => {
+  const formData = new FormData();
+  formData.append('pdf', file);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.details || errorData.error || 'Failed to process PDF');
+  }
+
+  const { jobId } = await response.json();
+  return waitForJob<T>(jobId, onProgress);
+};
+
+/**
+ * Fills in missing fields of an extraction job's result and checks it found something
+ */
+const validateInstructions = (data: InstructionResponse): InstructionResponse => {
+  // Validate the response format
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid response format from Gemini API');
+  }
+
+  // Ensure all required fields are present
+  const validatedResponse: InstructionResponse = {
+    title: data.title || 'Manual Instructions',
+    procedures: Array.isArray(data.procedures)
+      ? data.procedures.filter(procedure => Array.isArray(procedure.steps) && procedure.steps.length > 0)
+      : [],
+    warnings: Array.isArray(data.warnings) ? data.warnings : [],
+    chunkErrors: Array.isArray(data.chunkErrors) ? data.chunkErrors : [],
+  };
+
+  // Check if we have any actual content
+  if (validatedResponse.procedures.length === 0) {
+    throw new Error('No procedures could be extracted from the PDF');
+  }
+
+  return validatedResponse;
+};
+
 export class ManualService {
   private static instance: ManualService;
-  private manualContent: ManualContent[] = [];
-  private isManualUploaded: boolean = false;
+  private manuals = new Map<string, ManualMetadata>();
 
   private constructor() {}
 
@@ -50,44 +401,89 @@ export class ManualService {
     return this.instance;
   }
 
-  async uploadManual(file: File): Promise<boolean> {
+  async uploadManual(file: File, onProgress?: ProgressHandler): Promise<ManualMetadata> {
     console.log('Uploading manual...');
-    
-    const formData = new FormData();
-    formData.append('pdf', file);
 
     try {
-      const response = await fetch('http://localhost:3001/upload', {
+      const result = await submitPdfJob<{ manualId: string; metadata: ManualMetadata }>(
+        'http://localhost:3001/upload',
+        file,
+        onProgress
+      );
+      this.manuals.set(result.manualId, result.metadata);
+      return result.metadata;
+    } catch (error) {
+      console.error('Error uploading manual:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Searches the library. Without manualIds every uploaded manual is searched.
+   */
+  async searchManual(
+    query: string,
+    manualIds?: string[],
+    options: SearchOptions = {}
+  ): Promise<SearchResponse> {
+    if (!this.isManualLoaded()) {
+      throw new Error('Please upload a manual first');
+    }
+
+    try {
+      const response = await fetch('http://localhost:3001/search', {
         method: 'POST',
-        body: formData,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          query,
+          manualIds,
+          weights: options.weights,
+          conversationId: options.conversationId,
+        }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.details || errorData.error || 'Failed to upload manual');
+        throw new Error(errorData.details || errorData.error || 'Failed to search manual');
       }
 
       const result = await response.json();
-      this.isManualUploaded = true;
-      return true;
+      return result;
     } catch (error) {
-      console.error('Error uploading manual:', error);
+      console.error('Error searching manual:', error);
       throw error;
     }
   }
 
-  async searchManual(query: string): Promise<SearchResponse> {
-    if (!this.isManualUploaded) {
+  /**
+   * Like searchManual, but streams the answer: sources are reported as soon as
+   * retrieval completes and the answer text as the model produces it.
+   * Resolves with the complete response.
+   */
+  async streamSearch(
+    query: string,
+    manualIds?: string[],
+    options: SearchOptions = {},
+    handlers: SearchStreamHandlers = {}
+  ): Promise<SearchResponse> {
+    if (!this.isManualLoaded()) {
       throw new Error('Please upload a manual first');
     }
 
     try {
-      const response = await fetch('http://localhost:3001/search', {
+      const response = await fetch('http://localhost:3001/search/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ query }),
+        body: JSON.stringify({
+          query,
+          manualIds,
+          weights: options.weights,
+          conversationId: options.conversationId,
+        }),
       });
 
       if (!response.ok) {
@@ -95,16 +491,146 @@ export class ManualService {
         throw new Error(errorData.details || errorData.error || 'Failed to search manual');
       }
 
-      const result = await response.json();
-      return result;
+      let sources: SearchSources = { relevantSections: [] };
+      for await (const { event, data } of readEventStream(response)) {
+        const payload = JSON.parse(data);
+        switch (event) {
+          case 'sources':
+            sources = payload;
+            handlers.onSources?.(payload);
+            break;
+          case 'answer':
+            handlers.onAnswerText?.(payload.text);
+            break;
+          case 'done':
+            return { ...sources, ...payload };
+          case 'error':
+            throw new Error(payload.details || payload.error || 'Failed to search manual');
+        }
+      }
+      throw new Error('The search was interrupted before the answer was complete');
     } catch (error) {
       console.error('Error searching manual:', error);
       throw error;
     }
   }
 
+  /**
+   * Starts a conversation on the server; returns its id
+   */
+  async startConversation(): Promise<string> {
+    try {
+      const response = await fetch('http://localhost:3001/conversations', {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to start conversation');
+      }
+
+      const result = await response.json();
+      return result.conversationId;
+    } catch (error) {
+      console.error('Error starting conversation:', error);
+      throw error;
+    }
+  }
+
+  async endConversation(conversationId: string): Promise<void> {
+    try {
+      const response = await fetch(`http://localhost:3001/conversations/${encodeURIComponent(conversationId)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to end conversation');
+      }
+    } catch (error) {
+      console.error('Error ending conversation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reloads the library from the server, e.g. manuals uploaded by other users
+   */
+  async refreshManuals(): Promise<ManualMetadata[]> {
+    try {
+      const response = await fetch('http://localhost:3001/manuals');
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to load manuals');
+      }
+
+      const result = await response.json();
+      this.manuals = new Map(
+        result.manuals.map((manual: ManualMetadata) => [manual.id, manual])
+      );
+      return this.getManuals();
+    } catch (error) {
+      console.error('Error loading manuals:', error);
+      throw error;
+    }
+  }
+
+  async removeManual(manualId: string): Promise<void> {
+    try {
+      const response = await fetch(`http://localhost:3001/manuals/${encodeURIComponent(manualId)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to remove manual');
+      }
+
+      this.manuals.delete(manualId);
+    } catch (error) {
+      console.error('Error removing manual:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Extracts simplified instructions from a manual already in the library, using the
+   * PDF the server kept from its upload
+   */
+  async simplifyManual(manualId: string, onProgress?: ProgressHandler): Promise<InstructionResponse> {
+    try {
+      const response = await fetch(
+        `http://localhost:3001/manuals/${encodeURIComponent(manualId)}/instructions`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || 'Failed to simplify manual');
+      }
+
+      const { jobId } = await response.json();
+      return validateInstructions(await waitForJob<InstructionResponse>(jobId, onProgress));
+    } catch (error) {
+      console.error('Error simplifying manual:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Address of a manual's original PDF
+   */
+  pdfUrl(manualId: string): string {
+    return `http://localhost:3001/manuals/${encodeURIComponent(manualId)}/pdf`;
+  }
+
+  getManuals(): ManualMetadata[] {
+    return [...this.manuals.values()];
+  }
+
   isManualLoaded(): boolean {
-    return this.isManualUploaded;
+    return this.manuals.size > 0;
   }
 }
 
@@ -113,48 +639,22 @@ export const manualService = ManualService.getInstance();
 /**
  * Extracts instructions from a PDF manual using Gemini API
  * @param pdfFile - The PDF file to process
+ * @param onProgress - Called with the job's stage and percent while it runs
  * @returns Promise with the simplified instructions
  */
-export const extractInstructionsFromPDF = async (file: File): Promise<InstructionResponse> => {
+export const extractInstructionsFromPDF = async (
+  file: File,
+  onProgress?: ProgressHandler
+): Promise<InstructionResponse> => {
   console.log('Preparing to upload PDF...');
-  
-  const formData = new FormData();
-  formData.append('pdf', file);
 
   try {
-    const response = await fetch('http://localhost:3001/api/gemini', {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.details || errorData.error || 'Failed to process PDF');
-    }
-
-    const data = await response.json();
-    
-    // Validate the response format
-    if (!data || typeof data !== 'object') {
-      throw new Error('Invalid response format from Gemini API');
-    }
-
-    // Ensure all required fields are present
-    const validatedResponse: InstructionResponse = {
-      title: data.title || 'Manual Instructions',
-      prerequisites: Array.isArray(data.prerequisites) ? data.prerequisites : [],
-      warnings: Array.isArray(data.warnings) ? data.warnings : [],
-      steps: Array.isArray(data.steps) ? data.steps : [],
-    };
-
-    // Check if we have any actual content
-    if (validatedResponse.steps.length === 0 && 
-        validatedResponse.prerequisites.length === 0 && 
-        validatedResponse.warnings.length === 0) {
-      throw new Error('No valid instructions could be extracted from the PDF');
-    }
-
-    return validatedResponse;
+    const data = await submitPdfJob<InstructionResponse>(
+      'http://localhost:3001/api/gemini',
+      file,
+      onProgress
+    );
+    return validateInstructions(data);
 
   } catch (error) {
     console.error('Error extracting instructions:', error);
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Server tests run in Node against the Express app; see server/__tests__
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['server/**/*.test.js'],
+    testTimeout: 20000
+  }
+});